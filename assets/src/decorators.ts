@@ -1,7 +1,11 @@
-import { Signal, SlotOptions } from './qt-signal';
+import { Connection, Signal, SlotOptions } from './qt-signal';
+import { Connection as Connection2, Signal as Signal2, SlotOptions as SlotOptions2, signal as signal2 } from './signal2/qt-signal2';
+import { Connection as Connection3, Signal as Signal3 } from './signal3/qt-signal3';
+import { notifyChanged, recordRead } from './signal-binding';
 
 // 扩展SlotOptions接口，添加emitterPropertyName选项
-interface ExtendedSlotOptions extends SlotOptions {
+// 同时包含 qt-signal2 的 group/throttle/debounce 选项，qt-signal 和 qt-signal3 的信号不支持这些选项（开发模式下会警告）
+interface ExtendedSlotOptions extends SlotOptions, SlotOptions2 {
     /**
      * 信号发射器在当前对象中的属性名
      * 如果提供此值，会自动从当前对象的该属性中查找信号
@@ -34,10 +38,13 @@ const SLOTS_METADATA_KEY = Symbol('slots');
  * @param emitterOrOptions 信号发射器对象或属性名或选项对象
  * @param options 选项对象（如果第二个参数是发射器）
  */
-export function slot(signalName: string, emitterOrOptions?: any, options?: SlotOptions) {
+export function slot(signalName: string, emitterOrOptions?: any, options?: ExtendedSlotOptions) {
     return function (target: any, propertyKey: string) {
         const constructor = target.constructor;
-        const existingSlots: SlotMetadata[] = constructor.prototype[SLOTS_METADATA_KEY] || [];
+        // 子类复制一份父类的元数据，避免追加到父类的列表中
+        const existingSlots: SlotMetadata[] = Object.prototype.hasOwnProperty.call(constructor.prototype, SLOTS_METADATA_KEY)
+            ? constructor.prototype[SLOTS_METADATA_KEY]
+            : [...(constructor.prototype[SLOTS_METADATA_KEY] || [])];
         
         // 解析参数
         let slotOptions: ExtendedSlotOptions = {};
@@ -74,61 +81,282 @@ export function slot(signalName: string, emitterOrOptions?: any, options?: SlotO
     };
 }
 
+// 三种信号实现各自的连接对象
+export type SlotConnection = Connection | Connection2 | Connection3;
+
+// 实例 -> 已建立的 @slot 连接
+const _slotConnections = new WeakMap<object, SlotConnection[]>();
+
+/**
+ * 连接实例上所有 @slot 声明的槽函数，已连接时不会重复连接
+ * @param instance 声明了 @slot 的对象
+ * @returns 建立的连接
+ */
+export function connectSlots(instance: any): SlotConnection[] {
+    const existing = _slotConnections.get(instance);
+    if (existing) {
+        return existing;
+    }
+    const connections: SlotConnection[] = [];
+    // 通过构造函数获取元数据，而不是通过实例原型
+    const slots: SlotMetadata[] = instance.constructor.prototype[SLOTS_METADATA_KEY] || [];
+
+    slots.forEach(metadata => {
+        // 查找信号发射器
+        const emitter = findSignalEmitter(instance, metadata);
+        if (emitter) {
+            const slotMethod = instance[metadata.methodName];
+            if (typeof slotMethod === 'function') {
+                const connection = connectSignal(emitter[metadata.signalName], slotMethod, instance, metadata.options);
+                if (connection) {
+                    connections.push(connection);
+                }
+            }
+        }
+    });
+    _slotConnections.set(instance, connections);
+    return connections;
+}
+
+/**
+ * 断开 connectSlots 建立的所有连接
+ * @param instance 声明了 @slot 的对象
+ */
+export function disconnectSlots(instance: any) {
+    const connections = _slotConnections.get(instance);
+    if (!connections) return;
+    _slotConnections.delete(instance);
+    connections.forEach(connection => connection.disconnect());
+}
+
+/**
+ * 按信号的实现方式连接槽函数
+ * - qt-signal 的 Signal 实例：调用实例的 connect
+ * - qt-signal2 的 @signal 属性（带 __signalName 的函数）：调用 qt-signal2 的 Signal.connect
+ * - qt-signal3 的 @signal 属性（带 signalName 的函数）：调用 qt-signal3 的 Signal.connect
+ * 槽函数以 instance 作为目标连接，不预先绑定，以便按目标断开和识别重复连接
+ */
+function connectSignal(signalObj: any, slotMethod: Function, instance: any, options: ExtendedSlotOptions): SlotConnection | null {
+    if (signalObj instanceof Signal) {
+        warnIgnoredOptions(slotMethod, options);
+        return signalObj.connect(slotMethod as any, instance, options);
+    }
+    if (typeof signalObj === 'function') {
+        if (signalObj['__signalName']) {
+            return Signal2.connect(signalObj, slotMethod as any, instance, options);
+        }
+        if (signalObj['signalName']) {
+            warnIgnoredOptions(slotMethod, options);
+            return Signal3.connect(signalObj, slotMethod as any, instance, options);
+        }
+    }
+    return null;
+}
+
+// 开发模式下提示 qt-signal/qt-signal3 的信号不支持的 qt-signal2 连接选项
+function warnIgnoredOptions(slotMethod: Function, options: ExtendedSlotOptions) {
+    if (!(typeof CC_DEV !== 'undefined' && CC_DEV)) return;
+    const ignored = ['group', 'throttle', 'debounce'].filter(key => options[key] !== undefined);
+    if (ignored.length > 0) {
+        console.warn(`@slot ${slotMethod.name || 'anonymous'}: option ${ignored.join(', ')} is only supported by qt-signal2 signals and is ignored`);
+    }
+}
+
+function findSignalEmitter(instance: any, metadata: SlotMetadata): any {
+    // 1. 如果有直接提供的发射器对象，优先使用
+    if (metadata.emitterObject) {
+        return metadata.emitterObject;
+    }
+
+    // 2. 如果指定了发射器属性名（从装饰器参数），从该属性获取发射器
+    if (metadata.emitterProperty) {
+        const emitter = instance[metadata.emitterProperty];
+        if (emitter) {
+            return emitter;
+        }
+    }
+
+    // 3. 如果指定了emitterPropertyName（从options对象），从该属性获取发射器
+    if (metadata.options.emitterPropertyName) {
+        const emitter = instance[metadata.options.emitterPropertyName];
+        if (emitter) {
+            return emitter;
+        }
+    }
+
+    // 4. 如果信号在当前对象上
+    if (instance[metadata.signalName]) {
+        return instance;
+    }
+
+    return null;
+}
+
 // 用于自动连接的基类
 export class  AutoConnect {
 
     constructor() {
         // 直接调用连接方法，不使用setTimeout
-        this.connectSlots();
+        connectSlots(this);
     }
 
-    private connectSlots() {
-        // 通过构造函数获取元数据，而不是通过实例原型
-        const slots: SlotMetadata[] = (this.constructor as any).prototype[SLOTS_METADATA_KEY] || [];
-        
-        slots.forEach(metadata => {
-            // 查找信号发射器
-            const emitter = this.findSignalEmitter(metadata);
-            if (emitter) {
-                // 尝试获取信号对象
-                const signalObj = (emitter as any)[metadata.signalName];
-                if (signalObj && typeof signalObj.connect === 'function') {
-                    const slotMethod = (this as any)[metadata.methodName];
-                    if (typeof slotMethod === 'function') {
-                        signalObj.connect(slotMethod.bind(this), metadata.options);
-                    }
-                }
-            }
-        });
+    /**
+     * 已建立的 @slot 连接
+     */
+    get slotConnections(): SlotConnection[] {
+        return _slotConnections.get(this) || [];
     }
 
-    private findSignalEmitter(metadata: SlotMetadata): any {
-        // 1. 如果有直接提供的发射器对象，优先使用
-        if (metadata.emitterObject) {
-            return metadata.emitterObject;
-        }
-        
-        // 2. 如果指定了发射器属性名（从装饰器参数），从该属性获取发射器
-        if (metadata.emitterProperty) {
-            const emitter = (this as any)[metadata.emitterProperty];
-            if (emitter) {
-                return emitter;
-            }
+    /**
+     * 断开所有 @slot 连接
+     */
+    disconnectSlots() {
+        disconnectSlots(this);
+    }
+}
+
+/**
+ * cc.Component 的 @slot 自动连接装饰器
+ * 组件已经继承 cc.Component，无法再继承 AutoConnect，改为在生命周期中连接：
+ * - 'onEnable'（默认）：onEnable 时连接，onDisable 时断开
+ * - 'onLoad'：onLoad 时连接，onDestroy 时断开
+ * 连接发生在原有生命周期方法之后，因此 @property 注入或在 onLoad 中赋值的发射器都能被找到
+ *
+ * @example
+ * @ccclass
+ * export class Player extends cc.Component {
+ *     @signal() hpChanged: Signal<(hp: number) => void>;
+ * }
+ *
+ * @ccclass
+ * @autoConnect()
+ * export default class Hud extends cc.Component {
+ *     @property(Player) player: Player = null;
+ *     @slot('hpChanged', 'player') onHpChanged(hp: number) { }
+ * }
+ * @param phase 连接时机
+ */
+export function autoConnect(phase: 'onLoad' | 'onEnable' = 'onEnable') {
+    return function <C extends Function>(constructor: C): C {
+        const proto = constructor.prototype;
+        const connectIn = phase;
+        const disconnectIn = phase === 'onLoad' ? 'onDestroy' : 'onDisable';
+
+        const originalConnect = proto[connectIn];
+        proto[connectIn] = function (...args: any[]) {
+            const result = originalConnect ? originalConnect.apply(this, args) : undefined;
+            connectSlots(this);
+            return result;
+        };
+
+        const originalDisconnect = proto[disconnectIn];
+        proto[disconnectIn] = function (...args: any[]) {
+            disconnectSlots(this);
+            return originalDisconnect ? originalDisconnect.apply(this, args) : undefined;
+        };
+
+        // onEnable 模式下组件销毁时同样需要断开（销毁前不一定会先 onDisable）
+        if (disconnectIn !== 'onDestroy') {
+            const originalDestroy = proto.onDestroy;
+            proto.onDestroy = function (...args: any[]) {
+                disconnectSlots(this);
+                return originalDestroy ? originalDestroy.apply(this, args) : undefined;
+            };
         }
-        
-        // 3. 如果指定了emitterPropertyName（从options对象），从该属性获取发射器
-        if (metadata.options.emitterPropertyName) {
-            const emitter = (this as any)[metadata.options.emitterPropertyName];
-            if (emitter) {
-                return emitter;
-            }
+        return constructor;
+    };
+}
+
+/**
+ * 可观察属性的选项
+ */
+export interface ObservableOptions<V = any> {
+    /** 通知信号的属性名，默认 `<prop>Changed` */
+    notify?: string;
+    /** 比较新旧值是否相等，相等时不发射（默认全等，NaN 视为相等） */
+    equals?: (value: V, oldValue: V) => boolean;
+}
+
+function sameValue(value: any, oldValue: any): boolean {
+    return value === oldValue || (value !== value && oldValue !== oldValue);
+}
+
+/**
+ * 可观察属性装饰器（类似 Q_PROPERTY 的 NOTIFY）
+ * 属性被赋予不同的值时发射 `<prop>Changed(newValue, oldValue)`，从未赋值时旧值为 undefined
+ * 字段初始化同样会发射，但此时还没有槽连接到该实例；没有初始化的字段第一次赋值时正常通知
+ * 通知信号可以用任一实现的 @signal 或字段（如 hpChanged = new Signal()）声明，与装饰器的顺序无关
+ * 没有声明时自动声明为 qt-signal2 的 @signal
+ * 适用于普通类（如视图模型），不要与 cc 的 @property 用在同一个字段上
+ * 读取和修改会被 bind 的绑定表达式跟踪，见 signal-binding
+ *
+ * @example
+ * class PlayerModel {
+ *     @observable() hp: number = 100;
+ *     @signal() hpChanged: (hp: number, oldHp: number) => void;
+ * }
+ * Signal.connect(model.hpChanged, (hp, oldHp) => { });
+ * model.hp = 80;   // 发射 hpChanged(80, 100)
+ * @param options 选项
+ */
+export function observable<V = any>(options?: ObservableOptions<V>) {
+    return function (target: any, propertyKey: string) {
+        const notifyName = (options && options.notify) || `${propertyKey}Changed`;
+        const equals = (options && options.equals) || sameValue;
+        const values = new WeakMap<object, V>();
+
+        if (!(notifyName in target)) {
+            declareNotifySignal(target, notifyName);
         }
-        
-        // 4. 如果信号在当前对象上
-        if ((this as any)[metadata.signalName]) {
-            return this;
+
+        Object.defineProperty(target, propertyKey, {
+            get: function () {
+                recordRead(this, propertyKey);
+                return values.get(this);
+            },
+            set: function (value: V) {
+                const oldValue = values.get(this);
+                // 从未赋值时与 undefined 比较，自定义的 equals 不需要处理 undefined
+                const unchanged = values.has(this) ? equals(value, oldValue) : value === undefined;
+                values.set(this, value);
+                if (unchanged) return;
+                emitSignal(this[notifyName], [value, oldValue]);
+                notifyChanged(this, propertyKey);
+            },
+            enumerable: true,
+            configurable: true
+        });
+    };
+}
+
+/**
+ * 自动声明 qt-signal2 的通知信号
+ * 之后声明的 @signal 会替换它；字段初始化赋值时改为实例上的普通属性，不会因为只有 getter 而抛出异常
+ */
+function declareNotifySignal(target: any, notifyName: string) {
+    signal2()(target, notifyName);
+    const descriptor = Object.getOwnPropertyDescriptor(target, notifyName)!;
+    Object.defineProperty(target, notifyName, {
+        get: descriptor.get,
+        set: function (value: any) {
+            Object.defineProperty(this, notifyName, { value: value, writable: true, enumerable: true, configurable: true });
+        },
+        enumerable: true,
+        configurable: true
+    });
+}
+
+/**
+ * 按信号的实现方式发射信号，与 connectSignal 的判断方式相同
+ */
+function emitSignal(signalObj: any, args: any[]) {
+    if (signalObj instanceof Signal) {
+        signalObj.emit(...args);
+    } else if (typeof signalObj === 'function') {
+        if (signalObj['__signalName']) {
+            Signal2.emit(signalObj, ...args);
+        } else if (signalObj['signalName']) {
+            Signal3.emit(signalObj, ...args);
         }
-        
-        return null;
     }
 }
\ No newline at end of file
@@ -1,12 +1,37 @@
 /* Qt 风格 Signal/Slot for TypeScript - ES5 兼容版本（WeakRef与 FinalizationRegistry 移除） */
 
+import { autoDisconnect, isDestroyedTarget } from './signal-lifecycle';
+import { ConnectionType, EventQueue, connectionTypeOf, enterEmit, isEmitting, leaveEmit, postTask, resolveConnectionType } from './signal-event-queue';
+import { getScheduler } from './signal-scheduler';
+import { reportSlotError, SignalError, SlotErrorInfo } from './signal-errors';
+import { Operator, OperatorFactory, Operators, SignalValue } from './signal-operators';
+import { Combiner as SharedCombiner, Combiners } from './signal-combiners';
+
 export interface SlotOptions {
     once?: boolean;      // 自动断开（只调用一次）
-    queued?: boolean;    // 异步调用（类似 Qt::QueuedConnection）
+    queued?: boolean;    // 异步调用（类似 Qt::QueuedConnection），等同于 type: ConnectionType.Queued
+    type?: ConnectionType; // 连接类型（类似 Qt::ConnectionType），指定后忽略 queued（默认 Direct）
+    priority?: number;   // 优先级，数值越大越先执行，相同优先级按连接顺序（默认0）
+    unique?: boolean;    // 唯一连接，相同槽函数和目标已连接时返回已有连接（类似 Qt::UniqueConnection）
+    replay?: boolean;    // 粘性信号：连接时是否重放保存的发射（默认 true）
+}
+
+export interface SignalOptions {
+    sticky?: number | boolean; // 粘性信号：保存最近 N 次发射并重放给之后连接的槽，true 等同于 1（默认不保存）
 }
 
+export { ConnectionType, Combiners };
+
+/**
+ * 组合器，见 signal-combiners
+ */
+export type Combiner<R, U> = SharedCombiner<R, U>;
+
 let _nextId = 1;
 
+// 标记槽函数没有产生返回值（抛出异常），不参与组合
+const NO_RESULT: any = {};
+
 export class Connection {
     private _disconnect?: () => void;
     readonly id: number;
@@ -29,140 +54,820 @@ interface Slot<T extends (...args: any[]) => void> {
     id: number;
     callback: SlotFunc<T>;
     target?: any;
+    connection?: Connection;
+    release?: () => void;  // 取消目标销毁监听
     once: boolean;
-    queued: boolean;
+    type: ConnectionType;
+    priority: number;
+}
+
+/**
+ * 发射上下文，槽函数可以通过它接受本次发射，停止向后续槽传递（类似 QEvent::accept）
+ * 队列槽在发射结束后才执行，无法影响本次传递
+ */
+export class EmissionContext {
+    private _accepted = false;
+    readonly signalName: string;
+    constructor(signalName: string) {
+        this.signalName = signalName;
+    }
+    accept() { this._accepted = true; }
+    ignore() { this._accepted = false; }
+    get accepted() { return this._accepted; }
+}
+
+/**
+ * 信号被阻塞期间的发射处理方式
+ * - drop: 直接丢弃
+ * - queue: 排队，解除阻塞时按顺序重放
+ */
+export type BlockMode = 'drop' | 'queue';
+
+/**
+ * 异步发射的执行方式
+ */
+export type EmitAsyncMode = 'sequential' | 'parallel' | 'race';
+
+export interface EmitAsyncOptions {
+    mode?: EmitAsyncMode;   // 执行方式（默认 parallel）
+    timeout?: number;       // 整体超时时间（毫秒），不设置则一直等待
+}
+
+/**
+ * 槽函数返回值解包 Promise 后的类型
+ */
+export type AsyncResult<R> = R extends PromiseLike<infer U> ? U : R;
+
+/**
+ * 单个槽函数的失败信息
+ */
+export interface SlotError {
+    slotId: number;
+    target?: any;
+    error: any;
 }
 
+/**
+ * 异步发射的聚合错误，列出本次发射中每个失败的槽
+ */
+export class SignalAggregateError extends SignalError {
+    readonly errors: SlotError[];
+    readonly timedOut: boolean;
+    constructor(message: string, errors: SlotError[], timedOut: boolean = false) {
+        super(message);
+        this.name = 'SignalAggregateError';
+        this.errors = errors;
+        this.timedOut = timedOut;
+    }
+}
+
+/**
+ * 一组信号的值类型（每个信号取第一个参数），用于 zip/combineLatest
+ */
+export type SignalValues<S extends Signal<any>[]> = { [K in keyof S]: S[K] extends Signal<infer F> ? SignalValue<F> : never };
+
 export class Signal<T extends (...args: any[]) => void> {
 
+    /**
+     * 任一信号的槽函数抛出异常时发射，参数为异常信息
+     * @example
+     * Signal.errorOccurred.connect(info => reportToServer(info.signalName, info.error));
+     */
+    static readonly errorOccurred = new Signal<(info: SlotErrorInfo) => void>('errorOccurred');
+
+    /**
+     * 未使用 unique 选项却重复连接相同槽函数和目标时输出警告（默认只在开发模式开启）
+     */
+    static warnDuplicateConnections: boolean = typeof CC_DEV !== 'undefined' && CC_DEV;
+
     private _slots = new Map<number, Slot<T>>();
+    // 按优先级排好序的槽列表缓存，连接变化时失效
+    private _ordered: Slot<T>[] | null = null;
+    // 正在进行的发射上下文栈（槽函数中再次发射时会嵌套）
+    private _emissions: EmissionContext[] = [];
+    // 阻塞状态以及阻塞期间排队的发射参数
+    private _blocked = false;
+    private _blockMode: BlockMode = 'drop';
+    private _pending: Parameters<T>[] = [];
+    // 运算符创建的派生信号：上游连接和运算符实例
+    private _upstream?: { source: Signal<any>, connection: Connection }[];
+    private _operator?: Operator;
     private _signalName: string;
+    // 粘性信号保存的发射次数和最近的发射参数
+    private _sticky = 0;
+    private _history: Parameters<T>[] = [];
 
-    constructor(name: string = '') {
+    constructor(name: string = '', options?: SignalOptions) {
         this._signalName = name;
+        if (options && options.sticky) {
+            this.setSticky(options.sticky);
+        }
     }
 
     connect(callback: SlotFunc<T>, target?: object, options?: SlotOptions): Connection {
+        // 检查重复连接
+        for (const existing of this._slots.values()) {
+            if (existing.callback !== callback || existing.target !== target) continue;
+            if (options && options.unique) {
+                return existing.connection;
+            }
+            if (Signal.warnDuplicateConnections) {
+                console.warn(`Duplicate connection to signal ${this._signalName || 'unnamed'}, use { unique: true } to avoid calling the slot twice`);
+            }
+            break;
+        }
         const id = _nextId++;
         const once = !!(options && options.once);
-        const queued = !!(options && options.queued);
-        const slot: Slot<T> = { id: id, callback: callback, target: target, once: once, queued: queued };
+        const type = connectionTypeOf(options);
+        const priority = (options && options.priority) || 0;
+        const slot: Slot<T> = { id: id, callback: callback, target: target, once: once, type: type, priority: priority };
         this._slots.set(id, slot);
+        this._ordered = null;
         const disconnect = () => {
-            this._slots.delete(id);
+            this._remove(id);
         };
-        return new Connection(id, disconnect);
+        slot.connection = new Connection(id, disconnect);
+        slot.release = autoDisconnect(target, () => slot.connection.disconnect());
+        // 粘性信号向新连接的槽重放保存的发射
+        if (this._history.length > 0 && !(options && options.replay === false)) {
+            this._replay(slot);
+        }
+        return slot.connection;
     }
 
     disconnect(fnOrTargetOrId?: SlotFunc<T> | object | number) {
         if (fnOrTargetOrId === undefined) {
-            this._slots.clear();
+            for (const id of [...this._slots.keys()]) {
+                this._remove(id);
+            }
+            // 派生信号同时断开上游连接
+            this._detach();
             return;
         }
         if (typeof fnOrTargetOrId === 'number') {
-            this._slots.delete(fnOrTargetOrId);
+            this._remove(fnOrTargetOrId);
             return;
         }
-        for (const [id, slot] of this._slots.entries()) {
+        for (const [id, slot] of [...this._slots.entries()]) {
             if (typeof fnOrTargetOrId === 'function' && slot.callback === fnOrTargetOrId) {
-                this._slots.delete(id);
+                this._remove(id);
             } else if (typeof fnOrTargetOrId === 'object' && slot.target === fnOrTargetOrId) {
-                this._slots.delete(id);
+                this._remove(id);
             }
         }
     }
 
-    emit(...args: Parameters<T>) {
+    /**
+     * 移除槽函数并取消其目标销毁监听，派生信号没有槽时同时断开上游连接
+     */
+    private _remove(id: number) {
+        const slot = this._slots.get(id);
+        if (!slot) return;
+        this._slots.delete(id);
+        this._ordered = null;
+        if (slot.release) {
+            slot.release();
+        }
+        if (this._upstream && this._slots.size === 0) {
+            this._detach();
+        }
+    }
+
+    /**
+     * 设置粘性信号保存的发射次数，0 或 false 时不再保存并清除已保存的发射
+     * @example
+     * readonly userChanged = new Signal<(user: User) => void>('userChanged', { sticky: 1 });
+     * // 登录之后才加载的组件连接时立即收到当前用户
+     * auth.userChanged.connect(user => this.showUser(user));
+     * @param count 保存最近的发射次数，true 等同于 1
+     */
+    setSticky(count: number | boolean) {
+        this._sticky = count === true ? 1 : Math.max(Number(count) || 0, 0);
+        if (this._history.length > this._sticky) {
+            this._history.splice(0, this._history.length - this._sticky);
+        }
+    }
+
+    /**
+     * 粘性信号保存的发射次数（0 表示不是粘性信号）
+     */
+    get sticky() { return this._sticky; }
+
+    /**
+     * 清除粘性信号保存的发射，之后连接的槽不会再收到之前的发射
+     */
+    clearSticky() {
+        this._history.length = 0;
+    }
+
+    /**
+     * 触发信号
+     * @param args 传递给槽函数的参数
+     * @returns 是否有槽函数接受（accept）了本次发射
+     */
+    emit(...args: Parameters<T>): boolean {
+        return this._invoke(args);
+    }
+
+    /**
+     * 触发信号并用组合器合并槽函数的返回值
+     * @param combiner 组合器，见 Combiners
+     * @param args 传递给槽函数的参数
+     * @returns 组合器的结果
+     */
+    emitWith<U>(combiner: Combiner<ReturnType<T>, U>, ...args: Parameters<T>): U {
+        const results: ReturnType<T>[] = [];
+        this._invoke(args, results);
+        return combiner(results);
+    }
+
+    /**
+     * 当前正在进行的发射上下文（只在槽函数同步执行期间有效）
+     */
+    get currentEmission(): EmissionContext | undefined {
+        return this._emissions[this._emissions.length - 1];
+    }
+
+    /**
+     * 在槽函数中调用，接受本次发射并停止向后续槽传递
+     */
+    accept() {
+        const context = this.currentEmission;
+        if (context) {
+            context.accept();
+        }
+    }
+
+    /**
+     * 依次调用槽函数，同步执行成功的槽的返回值写入 results
+     * @returns 是否有槽函数接受了本次发射
+     */
+    private _invoke(args: Parameters<T>, results?: ReturnType<T>[]): boolean {
+        if (this._intercept(args)) return false;
+        this._record(args);
+        const context = new EmissionContext(this._signalName);
+        this._emissions.push(context);
+        enterEmit();
+        try {
+            this._dispatch(args, context, results);
+        } finally {
+            leaveEmit();
+            this._emissions.pop();
+        }
+        return context.accepted;
+    }
+
+    private _dispatch(args: Parameters<T>, context: EmissionContext, results?: ReturnType<T>[]) {
         // snapshot for safe iteration
-        let snapshot = [...this._slots.entries()]; // Array.from(this._slots.entries());
-        for (const [id, slot] of snapshot) {
+        let snapshot = this._orderedSlots();
+        // 槽函数异常按 stop 方式处理时停止本次发射
+        let stopped = false;
+        for (const slot of snapshot) {
+            // 已被接受则不再传递给后续槽
+            if (context.accepted || stopped) break;
+            const id = slot.id;
             // 检查槽是否仍然存在（可能在处理过程中被移除）
             if (!this._slots.has(id)) continue;
+            // 目标节点或组件已销毁，自动断开
+            if (isDestroyedTarget(slot.target)) {
+                this._remove(id);
+                continue;
+            }
             // 立即处理一次性槽的移除
             if (slot.once) {
-                this._slots.delete(id);
+                this._remove(id);
             }
             // 执行回调的函数
             const executeCallback = () => {
+                // 队列槽执行时目标可能已经销毁
+                if (isDestroyedTarget(slot.target)) return NO_RESULT;
                 try {
                     if (slot.target) {
-                        slot.callback.apply(slot.target, args);
+                        return slot.callback.apply(slot.target, args);
                     } else {
-                        slot.callback(...args);
+                        return slot.callback(...args);
                     }
                 } catch (e) {
-                    // 捕获错误但不影响其他槽的执行
-                    setTimeout(() => {
-                        console.error(`Error in slot function for signal ${this._signalName || 'unnamed'}:`, e);
-                        // 在实际应用中，你可能需要更复杂的错误处理策略
-                    }, 0);
+                    stopped = this._reportError(slot, args, e);
+                    return NO_RESULT;
                 }
             };
-            // 根据配置决定同步或异步执行
-            if (slot.queued) {
-                setTimeout(executeCallback, 0);
+            // 根据连接类型决定同步或异步执行
+            const type = resolveConnectionType(slot.type);
+            if (type !== ConnectionType.Direct) {
+                postTask(type, executeCallback);
             } else {
-                executeCallback();
+                const value = executeCallback();
+                if (results && value !== NO_RESULT) {
+                    results.push(value);
+                }
             }
         }
     }
 
-    async emitAsync(...args: Parameters<T>): Promise<void> {
-        // 创建快照
-        const snapshot = [...this._slots.entries()]; // Array.from(this._slots.entries());
-        // 收集所有异步操作的Promise
-        const promises: Promise<void>[] = [];
-        for (const [id, slot] of snapshot) {
+    /**
+     * 异步触发信号，等待所有槽函数（包括返回 Promise 的槽）执行完成
+     * 默认并行执行，没有超时；任一槽失败时以 SignalAggregateError 拒绝
+     * @param args 传递给槽函数的参数
+     * @returns 成功执行的槽的返回值
+     */
+    emitAsync(...args: Parameters<T>): Promise<AsyncResult<ReturnType<T>>[]> {
+        return this.emitAsyncWith({}, ...args);
+    }
+
+    /**
+     * 按指定的执行方式异步触发信号
+     * - sequential: 按优先级顺序逐个等待，前一个槽完成后才调用下一个
+     * - parallel: 同时调用所有槽，等待全部完成
+     * - race: 同时调用所有槽，第一个成功完成的槽决定结果
+     * @param options 异步发射选项
+     * @param args 传递给槽函数的参数
+     * @returns 成功执行的槽的返回值（race 模式下只有第一个）
+     */
+    emitAsyncWith(options: EmitAsyncOptions, ...args: Parameters<T>): Promise<AsyncResult<ReturnType<T>>[]> {
+        if (this._intercept(args)) {
+            return Promise.resolve([]);
+        }
+        this._record(args);
+        const mode = options.mode || 'parallel';
+        // 创建快照，并立即移除一次性槽
+        const slots: Slot<T>[] = [];
+        for (const slot of this._orderedSlots()) {
+            const id = slot.id;
             if (!this._slots.has(id)) continue;
+            if (isDestroyedTarget(slot.target)) {
+                this._remove(id);
+                continue;
+            }
             if (slot.once) {
-                this._slots.delete(id);
+                this._remove(id);
             }
-            // 为每个槽创建一个Promise
-            const slotPromise = new Promise<void>((resolve) => {
-                const execute = () => {
+            slots.push(slot);
+        }
+
+        // 收集所有槽的失败信息
+        const errors: SlotError[] = [];
+        const fail = (slot: Slot<T>, error: any) => {
+            errors.push({ slotId: slot.id, target: slot.target, error: error });
+        };
+        const aggregate = () => {
+            return new SignalAggregateError(`${errors.length} slot(s) failed for signal ${this._signalName || 'unnamed'}`, errors);
+        };
+
+        let work: Promise<AsyncResult<ReturnType<T>>[]>;
+        if (mode === 'sequential') {
+            work = (async () => {
+                const results: AsyncResult<ReturnType<T>>[] = [];
+                for (const slot of slots) {
                     try {
-                        if (slot.target) {
-                            slot.callback.apply(slot.target, args);
-                        } else {
-                            slot.callback(...args);
-                        }
+                        results.push(await this._invokeAsync(slot, args));
                     } catch (e) {
-                        console.error('Signal callback error:', e);
-                    } finally {
-                        resolve();
+                        fail(slot, e);
                     }
-                };
-                if (slot.queued) {
-                    setTimeout(execute, 0);
+                }
+                if (errors.length > 0) {
+                    throw aggregate();
+                }
+                return results;
+            })();
+        } else if (mode === 'race') {
+            work = new Promise((resolve, reject) => {
+                let pending = slots.length;
+                if (pending === 0) {
+                    resolve([]);
+                    return;
+                }
+                for (const slot of slots) {
+                    this._invokeAsync(slot, args).then(value => {
+                        resolve([value]);
+                    }, e => {
+                        fail(slot, e);
+                        // 所有槽都失败时才拒绝
+                        if (--pending === 0) {
+                            reject(aggregate());
+                        }
+                    });
+                }
+            });
+        } else {
+            work = Promise.all(slots.map(slot => {
+                return this._invokeAsync(slot, args).then(value => [value], e => {
+                    fail(slot, e);
+                    return [];
+                });
+            })).then(settled => {
+                if (errors.length > 0) {
+                    throw aggregate();
+                }
+                return [].concat(...settled);
+            });
+        }
+
+        if (!(options.timeout > 0)) {
+            return work;
+        }
+        // 整体超时：超时后不再等待未完成的槽
+        return new Promise((resolve, reject) => {
+            const scheduler = getScheduler();
+            const timer = scheduler.setTimeout(() => {
+                const message = `emitAsync timed out after ${options.timeout}ms for signal ${this._signalName || 'unnamed'}`;
+                reject(new SignalAggregateError(message, errors.slice(), true));
+            }, options.timeout);
+            work.then(results => {
+                scheduler.clearTimeout(timer);
+                resolve(results);
+            }, e => {
+                scheduler.clearTimeout(timer);
+                reject(e);
+            });
+        });
+    }
+
+    /**
+     * 阻塞或解除阻塞信号（类似 QObject::blockSignals）
+     * 阻塞期间的发射按 mode 丢弃或排队，解除阻塞时按顺序重放排队的发射
+     * @param blocked 是否阻塞
+     * @param mode 阻塞期间的发射处理方式（默认丢弃）
+     * @returns 调用前的阻塞状态
+     */
+    blockSignals(blocked: boolean, mode: BlockMode = 'drop'): boolean {
+        const previous = this._blocked;
+        this._blocked = blocked;
+        if (blocked) {
+            this._blockMode = mode;
+            return previous;
+        }
+        // 解除阻塞时重放排队的发射
+        const pending = this._pending;
+        this._pending = [];
+        for (const args of pending) {
+            this.emit(...args);
+        }
+        return previous;
+    }
+
+    get signalsBlocked() { return this._blocked; }
+
+    /**
+     * 阻塞期间的发射处理方式，未阻塞时为 undefined
+     */
+    get blockMode(): BlockMode | undefined { return this._blocked ? this._blockMode : undefined; }
+
+    /**
+     * 信号被阻塞时拦截本次发射
+     * @returns 是否被拦截
+     */
+    private _intercept(args: Parameters<T>): boolean {
+        if (!this._blocked) return false;
+        if (this._blockMode === 'queue') {
+            this._pending.push(args);
+        }
+        return true;
+    }
+
+    /**
+     * 调用单个槽函数，并把同步异常和返回的 Promise 统一成 Promise
+     */
+    private _invokeAsync(slot: Slot<T>, args: Parameters<T>): Promise<AsyncResult<ReturnType<T>>> {
+        return new Promise((resolve, reject) => {
+            const execute = () => {
+                if (isDestroyedTarget(slot.target)) {
+                    resolve(undefined);
+                    return;
+                }
+                try {
+                    const value = slot.target ? slot.callback.apply(slot.target, args) : slot.callback(...args);
+                    // 返回 Promise 的槽会被等待，普通返回值直接完成
+                    Promise.resolve(value).then(resolve, reject);
+                } catch (e) {
+                    reject(e);
+                }
+            };
+            enterEmit();
+            try {
+                const type = resolveConnectionType(slot.type);
+                if (type !== ConnectionType.Direct) {
+                    postTask(type, execute);
                 } else {
                     execute();
                 }
-            });
-            promises.push(slotPromise);
+            } finally {
+                leaveEmit();
+            }
+        });
+    }
+
+    /**
+     * 粘性信号保存本次发射的参数
+     */
+    private _record(args: Parameters<T>) {
+        if (this._sticky <= 0) return;
+        this._history.push(args);
+        if (this._history.length > this._sticky) {
+            this._history.shift();
         }
-        // 等待所有槽执行完成
-        await Promise.all(promises);
+    }
+
+    /**
+     * 按发射顺序向槽重放保存的发射（遵循连接类型），一次性连接只重放最近的一次
+     */
+    private _replay(slot: Slot<T>) {
+        const history = slot.once ? this._history.slice(-1) : this._history.slice();
+        for (const args of history) {
+            // 重放过程中槽可能已被断开
+            if (!this._slots.has(slot.id)) break;
+            if (slot.once) {
+                this._remove(slot.id);
+            }
+            const executeCallback = () => {
+                if (isDestroyedTarget(slot.target)) return;
+                try {
+                    slot.callback.apply(slot.target, args);
+                } catch (e) {
+                    this._reportError(slot, args, e);
+                }
+            };
+            const type = resolveConnectionType(slot.type);
+            if (type !== ConnectionType.Direct) {
+                postTask(type, executeCallback);
+            } else {
+                executeCallback();
+            }
+        }
+    }
+
+    /**
+     * 报告槽函数异常，见 reportSlotError
+     * @returns 是否需要停止本次发射
+     */
+    private _reportError(slot: Slot<T>, args: Parameters<T>, error: any): boolean {
+        const info: SlotErrorInfo = { signalName: this._signalName || 'unnamed', slotId: slot.id, target: slot.target, args: args, error: error };
+        const notify = this !== Signal.errorOccurred ? (info: SlotErrorInfo) => Signal.errorOccurred.emit(info) : undefined;
+        return reportSlotError(info, notify, !isEmitting());
     }
 
     get hasSlots() { return this._slots.size > 0; }
 
+    /**
+     * 获取按优先级排序的槽列表（优先级高的在前，相同优先级按连接顺序）
+     * 返回的数组在连接变化时会被替换，可直接作为快照遍历
+     */
+    private _orderedSlots(): Slot<T>[] {
+        if (!this._ordered) {
+            this._ordered = [...this._slots.values()].sort((a, b) => (b.priority - a.priority) || (a.id - b.id));
+        }
+        return this._ordered;
+    }
+
     get slotCount() { return this._slots.size; }
 
+    /**
+     * 立即执行队列连接中等待的槽函数，见 EventQueue.process
+     */
+    static processEvents(budget?: number): number {
+        return EventQueue.process(budget);
+    }
+
     forwardTo<T extends (...args: any[]) => void>(other: Signal<T>, options?: SlotOptions) {
         const forwarder = (...args: Parameters<T>) => {
             other.emit.apply(other, args as any);
         } ;
         return this.connect(forwarder as any, undefined, options);
     }
+
+    /**
+     * 返回以 fn 的返回值作为唯一参数发射的派生信号
+     * 派生信号调用 disconnect() 时断开上游连接
+     * @example
+     * const nameChanged = userChanged.map(user => user.name);
+     * nameChanged.connect(name => label.string = name);
+     */
+    map<U>(fn: (...args: Parameters<T>) => U): Signal<(value: U) => void> {
+        return this._pipe('map', [this], Operators.map(fn));
+    }
+
+    /**
+     * 返回只在 predicate 返回真时发射的派生信号
+     */
+    filter(predicate: (...args: Parameters<T>) => boolean): Signal<T> {
+        return this._pipe('filter', [this], Operators.filter(predicate));
+    }
+
+    /**
+     * 返回本信号或任一 others 发射时都发射的派生信号
+     */
+    merge(...others: Signal<T>[]): Signal<T> {
+        return this._pipe('merge', [this, ...others], Operators.merge());
+    }
+
+    /**
+     * 返回按顺序配对发射各信号值的派生信号（每个信号取第一个参数）
+     * @example
+     * loaded.zip(configReady).connect((scene, config) => { });
+     */
+    zip<S extends Signal<any>[]>(...others: S): Signal<(...values: [SignalValue<T>, ...SignalValues<S>]) => void> {
+        return this._pipe('zip', [this, ...others], Operators.zip(others.length + 1));
+    }
+
+    /**
+     * 返回所有信号都发射过后，任一信号发射时发射各信号最新值的派生信号（每个信号取第一个参数）
+     */
+    combineLatest<S extends Signal<any>[]>(...others: S): Signal<(...values: [SignalValue<T>, ...SignalValues<S>]) => void> {
+        return this._pipe('combineLatest', [this, ...others], Operators.combineLatest(others.length + 1));
+    }
+
+    /**
+     * 返回参数与上一次相同时不发射的派生信号
+     * @param equals 比较函数，默认参数逐个全等
+     */
+    distinctUntilChanged(equals?: (previous: Parameters<T>, current: Parameters<T>) => boolean): Signal<T> {
+        return this._pipe('distinctUntilChanged', [this], Operators.distinctUntilChanged(equals as any));
+    }
+
+    /**
+     * 返回以累积结果作为唯一参数发射的派生信号
+     * @example
+     * const total = scored.scan((sum, points) => sum + points, 0);
+     */
+    scan<A>(reducer: (acc: A, ...args: Parameters<T>) => A, seed: A): Signal<(acc: A) => void> {
+        return this._pipe('scan', [this], Operators.scan(reducer, seed));
+    }
+
+    /**
+     * 返回只发射前 count 次的派生信号，之后自动断开上游连接
+     */
+    take(count: number): Signal<T> {
+        return this._pipe('take', [this], Operators.take(count));
+    }
+
+    /**
+     * 返回跳过前 count 次发射的派生信号
+     */
+    skip(count: number): Signal<T> {
+        return this._pipe('skip', [this], Operators.skip(count));
+    }
+
+    /**
+     * 返回延迟 ms 毫秒发射的派生信号（通过调度器计时），断开时取消尚未发射的
+     */
+    delay(ms: number): Signal<T> {
+        return this._pipe('delay', [this], Operators.delay(ms));
+    }
+
+    /**
+     * 创建派生信号并连接上游信号
+     */
+    private _pipe<U extends (...args: any[]) => void>(operatorName: string, sources: Signal<any>[], factory: OperatorFactory): Signal<U> {
+        const derived = new Signal<U>(`${this._signalName}.${operatorName}`);
+        const operator = factory(args => derived.emit.apply(derived, args), () => derived._detach());
+        derived._operator = operator;
+        derived._upstream = sources.map((source, index) => ({
+            source: source,
+            connection: source.connect((...args: any[]) => operator.next(index, args))
+        }));
+        return derived;
+    }
+
+    /**
+     * 派生信号断开上游连接，上游的派生信号没有其他槽时一并断开（见 _remove）
+     */
+    private _detach() {
+        const upstream = this._upstream;
+        if (!upstream) return;
+        this._upstream = undefined;
+        if (this._operator.dispose) {
+            this._operator.dispose();
+        }
+        for (const { connection } of upstream) {
+            connection.disconnect();
+        }
+    }
 }
 
-export function signal() {
+// @signal 声明的信号（类原型 -> 属性名和按实例取得信号的函数）
+const _declaredSignals = new WeakMap<object, { prop: string, get: (owner: object) => Signal<any> }[]>();
+
+/**
+ * 信号装饰器，每个实例拥有独立的信号对象
+ * @param options 信号选项，例如 @signal({ sticky: 1 }) 声明粘性信号
+ */
+export function signal(options?: SignalOptions) {
     return function (target: any, prop: string) {
-        const instance = new Signal(prop);
+        // 每个实例拥有独立的信号对象，避免同类实例之间互相影响
+        const instances = new WeakMap<object, Signal<any>>();
+        const get = (owner: object) => {
+            let instance = instances.get(owner);
+            if (!instance) {
+                instance = new Signal(prop, options);
+                instances.set(owner, instance);
+            }
+            return instance;
+        };
+        let declared = _declaredSignals.get(target);
+        if (!declared) {
+            declared = [];
+            _declaredSignals.set(target, declared);
+        }
+        declared.push({ prop: prop, get: get });
         Object.defineProperty(target, prop, {
             enumerable: true,
             configurable: true,
-            get() { return instance; }
+            get() {
+                return get(this);
+            }
         });
     };
+}
+
+/**
+ * 获取对象上所有的信号属性：@signal 声明的信号和值为 Signal 的自身字段
+ * 只读取装饰器的登记和属性描述符，不会调用对象上的其他访问器
+ * @param owner 信号所属对象
+ * @returns 属性名 -> 信号
+ */
+export function signalMembers(owner: object): Map<string, Signal<any>> {
+    const members = new Map<string, Signal<any>>();
+    for (const key of Object.keys(owner)) {
+        const descriptor = Object.getOwnPropertyDescriptor(owner, key);
+        if (descriptor && 'value' in descriptor && descriptor.value instanceof Signal) {
+            members.set(key, descriptor.value);
+        }
+    }
+    // 子类的声明覆盖父类的同名声明
+    for (let proto = Object.getPrototypeOf(owner); proto; proto = Object.getPrototypeOf(proto)) {
+        const declared = _declaredSignals.get(proto);
+        if (!declared) continue;
+        for (const { prop, get } of declared) {
+            if (!members.has(prop)) {
+                members.set(prop, get(owner));
+            }
+        }
+    }
+    return members;
+}
+
+function signalsOf(owner: object): Signal<any>[] {
+    return Array.from(signalMembers(owner).values());
+}
+
+/**
+ * 阻塞或解除阻塞对象的所有信号（类似 QObject::blockSignals）
+ * @param owner 信号所属对象
+ * @param blocked 是否阻塞
+ * @param mode 阻塞期间的发射处理方式（默认丢弃）
+ * @returns 调用前是否所有信号都处于阻塞状态
+ */
+export function blockSignals(owner: object, blocked: boolean, mode: BlockMode = 'drop'): boolean {
+    let previous = true;
+    for (const signal of signalsOf(owner)) {
+        previous = signal.blockSignals(blocked, mode) && previous;
+    }
+    return previous;
+}
+
+/**
+ * 信号阻塞器（类似 QSignalBlocker）
+ * 创建时阻塞信号或对象的所有信号，unblock 时逐个恢复各信号创建前的阻塞状态和阻塞方式
+ */
+export class SignalBlocker {
+    // 每个信号创建前的阻塞方式，未阻塞时为 undefined
+    private _previous: { signal: Signal<any>, mode: BlockMode | undefined }[];
+    private _active = true;
+
+    constructor(target: Signal<any> | object, mode: BlockMode = 'drop') {
+        const signals = target instanceof Signal ? [target] : signalsOf(target);
+        this._previous = signals.map(signal => ({ signal: signal, mode: signal.blockMode }));
+        signals.forEach(signal => signal.blockSignals(true, mode));
+    }
+
+    /**
+     * 恢复创建阻塞器之前的阻塞状态，重复调用无效
+     * 之前已阻塞的信号保持阻塞（恢复原来的阻塞方式），之前未阻塞的信号解除阻塞并重放排队的发射
+     */
+    unblock() {
+        if (!this._active) return;
+        this._active = false;
+        for (const { signal, mode } of this._previous) {
+            if (mode === undefined) {
+                signal.blockSignals(false);
+            } else {
+                signal.blockSignals(true, mode);
+            }
+        }
+    }
+
+    /**
+     * 在阻塞期间执行函数，结束后自动恢复（即使函数抛出异常）
+     * @param target 信号或信号所属对象
+     * @param fn 要执行的函数
+     * @param mode 阻塞期间的发射处理方式（默认丢弃）
+     */
+    static run<R>(target: Signal<any> | object, fn: () => R, mode: BlockMode = 'drop'): R {
+        const blocker = new SignalBlocker(target, mode);
+        try {
+            return fn();
+        } finally {
+            blocker.unblock();
+        }
+    }
 }
\ No newline at end of file
@@ -0,0 +1,215 @@
+/* 属性绑定（类似 QML 的属性绑定）：记录表达式读取的 @observable 属性，属性变化时重新计算 */
+
+import { isDestroyedTarget, onTargetDestroyed } from './signal-lifecycle';
+
+// 依赖：对象 -> 属性名 -> 依赖该属性的绑定
+const _dependents = new WeakMap<object, Map<string, Set<Binding>>>();
+
+// 目标对象 -> 属性名 -> 该属性上的绑定
+const _bindings = new WeakMap<object, Map<string, Binding>>();
+
+// 正在计算的绑定所读取的属性（计算嵌套时为栈）
+const _tracking: Map<object, Set<string>>[] = [];
+
+/**
+ * 记录一次 @observable 属性的读取（由 @observable 的 getter 调用）
+ * @param owner 属性所属对象
+ * @param prop 属性名
+ */
+export function recordRead(owner: object, prop: string) {
+    const reads = _tracking[_tracking.length - 1];
+    if (!reads) return;
+    let props = reads.get(owner);
+    if (!props) {
+        props = new Set();
+        reads.set(owner, props);
+    }
+    props.add(prop);
+}
+
+/**
+ * 通知依赖该属性的绑定重新计算（由 @observable 的 setter 调用）
+ * @param owner 属性所属对象
+ * @param prop 属性名
+ */
+export function notifyChanged(owner: object, prop: string) {
+    const props = _dependents.get(owner);
+    const bindings = props && props.get(prop);
+    if (!bindings) return;
+    // 复制一份，重新计算时会修改依赖集合
+    for (const binding of [...bindings]) {
+        binding.update();
+    }
+}
+
+/**
+ * 属性绑定，表达式读取的 @observable 属性变化时重新计算并赋值给目标属性
+ */
+export class Binding {
+    readonly target: object;
+    readonly prop: string;
+    private _expression: () => any;
+    private _dependencies = new Map<object, Set<string>>();
+    private _active = true;
+    private _updating = false;
+    private _release: () => void;
+    // 双向绑定的反向绑定
+    private _reverse?: Binding;
+
+    constructor(target: object, prop: string, expression: () => any) {
+        this.target = target;
+        this.prop = prop;
+        this._expression = expression;
+        // 目标为 cc.Component 时，在其 onDestroy 后自动解除绑定
+        this._release = onTargetDestroyed(target, () => this.unbind());
+    }
+
+    /**
+     * 绑定是否仍然有效
+     */
+    get active() { return this._active; }
+
+    /**
+     * 重新计算表达式并赋值给目标属性，同时更新依赖
+     */
+    update() {
+        // 赋值引起的连锁更新回到自身时忽略，避免循环
+        if (!this._active || this._updating) return;
+        if (isDestroyedTarget(this.target)) {
+            this.unbind();
+            return;
+        }
+        const reads = new Map<object, Set<string>>();
+        this._updating = true;
+        _tracking.push(reads);
+        let value: any;
+        try {
+            value = this._expression();
+        } finally {
+            _tracking.pop();
+            this._setDependencies(reads);
+        }
+        try {
+            this.target[this.prop] = value;
+        } finally {
+            this._updating = false;
+        }
+    }
+
+    /**
+     * 解除绑定，目标属性保持当前值；双向绑定时同时解除反向绑定
+     */
+    unbind() {
+        if (!this._active) return;
+        this._active = false;
+        this._setDependencies(new Map());
+        this._release();
+        const bindings = _bindings.get(this.target);
+        if (bindings && bindings.get(this.prop) === this) {
+            bindings.delete(this.prop);
+        }
+        const reverse = this._reverse;
+        if (reverse) {
+            this._reverse = undefined;
+            reverse.unbind();
+        }
+    }
+
+    /**
+     * 与另一个绑定组成双向绑定，解除任一个时同时解除另一个
+     */
+    pair(reverse: Binding) {
+        this._reverse = reverse;
+        reverse._reverse = this;
+    }
+
+    private _setDependencies(reads: Map<object, Set<string>>) {
+        this._dependencies.forEach((props, owner) => {
+            const dependents = _dependents.get(owner);
+            if (!dependents) return;
+            props.forEach(prop => {
+                const bindings = dependents.get(prop);
+                if (!bindings) return;
+                bindings.delete(this);
+                if (bindings.size === 0) {
+                    dependents.delete(prop);
+                }
+            });
+        });
+        this._dependencies = reads;
+        reads.forEach((props, owner) => {
+            let dependents = _dependents.get(owner);
+            if (!dependents) {
+                dependents = new Map();
+                _dependents.set(owner, dependents);
+            }
+            props.forEach(prop => {
+                let bindings = dependents.get(prop);
+                if (!bindings) {
+                    bindings = new Set();
+                    dependents.set(prop, bindings);
+                }
+                bindings.add(this);
+            });
+        });
+    }
+}
+
+/**
+ * 把表达式绑定到目标属性，表达式读取的 @observable 属性变化时自动重新计算并赋值
+ * 同一个属性再次绑定时替换原有绑定
+ * @example
+ * bind(this.hpLabel, 'string', () => `HP: ${model.hp}/${model.maxHp}`);
+ * bind(this.hpBar, 'progress', () => model.hp / model.maxHp);
+ * @param target 目标对象（如 cc.Label），为 cc.Component 时在其销毁后自动解除
+ * @param prop 目标属性名
+ * @param expression 绑定表达式
+ * @returns 绑定对象
+ */
+export function bind<T extends object, K extends keyof T & string>(target: T, prop: K, expression: () => T[K]): Binding {
+    unbind(target, prop);
+    const binding = new Binding(target, prop, expression);
+    let bindings = _bindings.get(target);
+    if (!bindings) {
+        bindings = new Map();
+        _bindings.set(target, bindings);
+    }
+    bindings.set(prop, binding);
+    binding.update();
+    return binding;
+}
+
+/**
+ * 双向绑定两个属性，初始时 target 取 source 的值，之后任一方变化都会同步到另一方
+ * 两个属性都需要是 @observable 属性，否则对应方向的变化无法被检测到
+ * @example
+ * bindTwoWay(settingsView, 'volume', settings, 'volume');
+ * @returns target 上的绑定对象，解除时同时解除反向绑定
+ */
+export function bindTwoWay<T extends object, K extends keyof T & string, S extends object, P extends keyof S & string>(
+    target: T, prop: K, source: S, sourceProp: P): Binding {
+    const forward = bind(target, prop, () => source[sourceProp] as any);
+    const reverse = bind(source, sourceProp, () => target[prop] as any);
+    forward.pair(reverse);
+    return forward;
+}
+
+/**
+ * 解除目标属性上的绑定，不传属性名时解除目标上的所有绑定
+ * @param target 目标对象
+ * @param prop 目标属性名
+ */
+export function unbind(target: object, prop?: string) {
+    const bindings = _bindings.get(target);
+    if (!bindings) return;
+    if (prop !== undefined) {
+        const binding = bindings.get(prop);
+        if (binding) {
+            binding.unbind();
+        }
+        return;
+    }
+    for (const binding of [...bindings.values()]) {
+        binding.unbind();
+    }
+}
\ No newline at end of file
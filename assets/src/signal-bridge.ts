@@ -0,0 +1,338 @@
+/* 跨线程信号桥：通过 MessagePort / Worker 把指定的 qt-signal2 信号镜像到另一端 */
+
+import { Signal } from './qt-signal';
+import { Connection, Signal as Signal2 } from './signal2/qt-signal2';
+import { getScheduler, SignalScheduler } from './signal-scheduler';
+import { handleSlotError, SignalError } from './signal-errors';
+
+// 协议版本，握手时两端必须一致
+const PROTOCOL_VERSION = 1;
+
+/**
+ * 可以收发消息的端口：浏览器的 Worker / MessagePort，或 Node 的 worker_threads（Worker、parentPort、MessageChannel 的端口）
+ */
+export interface MessagePortLike {
+    postMessage(message: any): void;
+    // Node 的 EventEmitter 风格（收到的是消息本身）
+    on?(event: 'message', listener: (data: any) => void): any;
+    off?(event: 'message', listener: (data: any) => void): any;
+    // 浏览器的 EventTarget 风格（收到的是 MessageEvent）
+    addEventListener?(type: 'message', listener: (event: any) => void): void;
+    removeEventListener?(type: 'message', listener: (event: any) => void): void;
+    start?(): void;
+}
+
+/**
+ * 信号桥选项
+ */
+export interface SignalBridgeOptions {
+    /** 转发到对端的本地信号名 */
+    signals?: string[];
+    /** 只接受对端转发的这些信号，默认全部接受 */
+    accept?: string[];
+    /** 握手超时（毫秒），超时后通过 errorOccurred 报告，0 表示不限制（默认 5000） */
+    handshakeTimeout?: number;
+}
+
+// 桥接消息
+interface BridgeMessage {
+    __signalBridge: number;
+    type: 'hello' | 'ack' | 'emit' | 'error' | 'close';
+    signal?: string;
+    args?: any[];
+    message?: string;
+}
+
+/**
+ * 信号桥的错误，remote 为真时表示错误发生在对端（例如对端发射信号失败）
+ */
+export class SignalBridgeError extends SignalError {
+    readonly signalName?: string;
+    readonly remote: boolean;
+    constructor(message: string, signalName?: string, remote: boolean = false) {
+        super(message);
+        this.name = 'SignalBridgeError';
+        this.signalName = signalName;
+        this.remote = remote;
+    }
+}
+
+/**
+ * 把值转换为可以安全结构化克隆的形式
+ * - 普通对象和类实例只保留自身可枚举属性（原型丢失），优先使用 toJSON
+ * - Error 转换为 { name, message, stack }
+ * - Date、RegExp、ArrayBuffer、TypedArray、Map、Set 原样保留（内容同样转换）
+ * - 函数和 Symbol 无法发送，抛出 SignalBridgeError
+ * @param value 要发送的值
+ */
+export function toCloneable(value: any, seen: Map<any, any> = new Map()): any {
+    if (value === null || value === undefined) return value;
+    const type = typeof value;
+    if (type === 'function' || type === 'symbol') {
+        throw new SignalBridgeError(`Cannot send a ${type} across the signal bridge`);
+    }
+    if (type !== 'object') return value;
+    if (seen.has(value)) return seen.get(value);
+    if (value instanceof Date || value instanceof RegExp || value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+        return value;
+    }
+    if (value instanceof Error) {
+        return { name: value.name, message: value.message, stack: value.stack };
+    }
+    if (value instanceof Map) {
+        const map = new Map();
+        seen.set(value, map);
+        value.forEach((item, key) => map.set(toCloneable(key, seen), toCloneable(item, seen)));
+        return map;
+    }
+    if (value instanceof Set) {
+        const set = new Set();
+        seen.set(value, set);
+        value.forEach(item => set.add(toCloneable(item, seen)));
+        return set;
+    }
+    if (Array.isArray(value)) {
+        const array: any[] = [];
+        seen.set(value, array);
+        value.forEach(item => array.push(toCloneable(item, seen)));
+        return array;
+    }
+    if (typeof value.toJSON === 'function') {
+        return toCloneable(value.toJSON(), seen);
+    }
+    const result: any = {};
+    seen.set(value, result);
+    for (const key of Object.keys(value)) {
+        // 与 JSON 一致，跳过函数属性
+        if (typeof value[key] === 'function') continue;
+        result[key] = toCloneable(value[key], seen);
+    }
+    return result;
+}
+
+/**
+ * 跨线程信号桥，两端各创建一个，本端发射 signals 中的信号时在对端以相同的参数发射
+ * 握手完成前发送的信号会缓存，握手完成后按顺序发送
+ * @example
+ * // worker 中
+ * const bridge = new SignalBridge(parentPort, { signals: ['path.found'] });
+ * Signal.emit('path.found', path);
+ * // 主线程中
+ * const bridge = new SignalBridge(worker);
+ * Signal.connect('path.found', path => this.walk(path));
+ */
+export class SignalBridge {
+
+    /** 握手完成时发射 */
+    readonly connected = new Signal<() => void>('connected');
+    /** 对端关闭或本端调用 close 时发射 */
+    readonly disconnected = new Signal<() => void>('disconnected');
+    /** 序列化、发送、握手或对端发射失败时发射 */
+    readonly errorOccurred = new Signal<(error: SignalBridgeError) => void>('errorOccurred');
+
+    private _port: MessagePortLike;
+    private _accept?: string[];
+    private _forwards = new Map<string, Connection>();
+    private _outbox: BridgeMessage[] = [];
+    private _isConnected = false;
+    private _closed = false;
+    // 正在发射的对端信号，避免两端转发同一个信号时来回发送
+    private _receiving: string[] = [];
+    private _handshakeTimer: any;
+    private _handshakeScheduler?: SignalScheduler; // 设置握手定时器的调度器
+
+    constructor(port: MessagePortLike, options?: SignalBridgeOptions) {
+        this._port = port;
+        this._accept = options && options.accept;
+        if (port.on) {
+            port.on('message', this._onData);
+        } else if (port.addEventListener) {
+            port.addEventListener('message', this._onEvent);
+            // MessagePort 使用 addEventListener 时需要手动开始接收
+            if (port.start) {
+                port.start();
+            }
+        }
+        if (options && options.signals) {
+            options.signals.forEach(signalName => this.forward(signalName));
+        }
+        const timeout = options && options.handshakeTimeout !== undefined ? options.handshakeTimeout : 5000;
+        if (timeout > 0) {
+            this._handshakeScheduler = getScheduler();
+            this._handshakeTimer = this._handshakeScheduler.setTimeout(() => {
+                this._handshakeTimer = undefined;
+                if (!this._isConnected && !this._closed) {
+                    this._report(new SignalBridgeError(`Signal bridge handshake timed out after ${timeout}ms`));
+                }
+            }, timeout);
+        }
+        this._post({ __signalBridge: PROTOCOL_VERSION, type: 'hello' });
+    }
+
+    /**
+     * 握手是否已经完成
+     */
+    get isConnected() { return this._isConnected; }
+
+    /**
+     * 把本端的信号转发到对端
+     * @param signalName qt-signal2 的信号名
+     */
+    forward(signalName: string) {
+        if (this._closed || this._forwards.has(signalName)) return;
+        const connection = Signal2.connect(signalName, (...args: any[]) => this._send(signalName, args));
+        this._forwards.set(signalName, connection);
+    }
+
+    /**
+     * 停止转发本端的信号
+     * @param signalName qt-signal2 的信号名
+     */
+    unforward(signalName: string) {
+        const connection = this._forwards.get(signalName);
+        if (connection) {
+            connection.disconnect();
+            this._forwards.delete(signalName);
+        }
+    }
+
+    /**
+     * 关闭信号桥：停止转发并通知对端，不会关闭端口本身
+     */
+    close() {
+        if (this._closed) return;
+        this._sendNow({ __signalBridge: PROTOCOL_VERSION, type: 'close' });
+        this._shutdown();
+    }
+
+    private _send(signalName: string, args: any[]) {
+        // 正在发射对端转发来的同名信号时不再发回去
+        if (this._receiving.indexOf(signalName) !== -1) return;
+        let cloneable: any[];
+        try {
+            cloneable = toCloneable(args);
+        } catch (e) {
+            this._report(new SignalBridgeError(`Cannot send signal "${signalName}": ${e.message}`, signalName));
+            return;
+        }
+        this._post({ __signalBridge: PROTOCOL_VERSION, type: 'emit', signal: signalName, args: cloneable });
+    }
+
+    private _post(message: BridgeMessage) {
+        if (this._closed) return;
+        // 握手完成前只发送握手消息，其他消息缓存
+        if (!this._isConnected && message.type !== 'hello' && message.type !== 'ack') {
+            this._outbox.push(message);
+            return;
+        }
+        this._sendNow(message);
+    }
+
+    private _sendNow(message: BridgeMessage) {
+        try {
+            this._port.postMessage(message);
+        } catch (e) {
+            this._report(new SignalBridgeError(`Failed to post message: ${e && e.message}`, message.signal));
+        }
+    }
+
+    private _onEvent = (event: any) => {
+        this._onData(event && event.data);
+    };
+
+    private _onData = (data: any) => {
+        // 端口上可能还有其他消息，只处理信号桥的消息
+        if (!data || typeof data !== 'object' || data.__signalBridge === undefined || this._closed) return;
+        const message = data as BridgeMessage;
+        if (message.__signalBridge !== PROTOCOL_VERSION) {
+            this._report(new SignalBridgeError(`Signal bridge protocol mismatch: local ${PROTOCOL_VERSION}, remote ${message.__signalBridge}`));
+            return;
+        }
+        switch (message.type) {
+            case 'hello':
+                // 回应握手，对端的 hello 可能先于本端的监听到达，因此总是回复
+                this._sendNow({ __signalBridge: PROTOCOL_VERSION, type: 'ack' });
+                this._onHandshake();
+                break;
+            case 'ack':
+                this._onHandshake();
+                break;
+            case 'emit':
+                this._onRemoteEmit(message.signal, message.args || []);
+                break;
+            case 'error':
+                this._report(new SignalBridgeError(message.message || 'Remote error', message.signal, true));
+                break;
+            case 'close':
+                this._shutdown();
+                break;
+        }
+    };
+
+    // 用设置定时器的调度器取消，期间替换过调度器时同样有效
+    private _clearHandshakeTimer() {
+        if (this._handshakeTimer !== undefined) {
+            this._handshakeScheduler!.clearTimeout(this._handshakeTimer);
+            this._handshakeTimer = undefined;
+        }
+    }
+
+    private _onHandshake() {
+        if (this._isConnected) return;
+        this._isConnected = true;
+        this._clearHandshakeTimer();
+        const outbox = this._outbox;
+        this._outbox = [];
+        outbox.forEach(message => this._sendNow(message));
+        this.connected.emit();
+    }
+
+    private _onRemoteEmit(signalName: string, args: any[]) {
+        if (this._accept && this._accept.indexOf(signalName) === -1) {
+            this._reportRemote(signalName, `Signal "${signalName}" is not accepted by the remote bridge`);
+            return;
+        }
+        this._receiving.push(signalName);
+        try {
+            Signal2.emit(signalName, ...args);
+        } catch (e) {
+            this._reportRemote(signalName, `Error emitting signal "${signalName}": ${e && e.message}`);
+        } finally {
+            this._receiving.pop();
+        }
+    }
+
+    // 本端处理对端消息失败：本端报告，同时通知对端
+    private _reportRemote(signalName: string, message: string) {
+        this._report(new SignalBridgeError(message, signalName));
+        this._post({ __signalBridge: PROTOCOL_VERSION, type: 'error', signal: signalName, message: message });
+    }
+
+    // 没有连接 errorOccurred 时交给槽函数异常处理，桥的错误没有调用方可以接收，rethrow 按 log 处理
+    private _report(error: SignalBridgeError) {
+        if (this.errorOccurred.hasSlots) {
+            this.errorOccurred.emit(error);
+        } else {
+            handleSlotError({ signalName: error.signalName || 'signalBridge', slotId: 0, target: this, args: [], error: error }, true);
+        }
+    }
+
+    private _shutdown() {
+        if (this._closed) return;
+        this._closed = true;
+        this._forwards.forEach(connection => connection.disconnect());
+        this._forwards.clear();
+        this._outbox.length = 0;
+        this._clearHandshakeTimer();
+        if (this._port.off) {
+            this._port.off('message', this._onData);
+        } else if (this._port.removeEventListener) {
+            this._port.removeEventListener('message', this._onEvent);
+        }
+        const wasConnected = this._isConnected;
+        this._isConnected = false;
+        if (wasConnected) {
+            this.disconnected.emit();
+        }
+    }
+}
\ No newline at end of file
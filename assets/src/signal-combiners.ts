@@ -0,0 +1,37 @@
+/* 组合器：qt-signal 和 qt-signal2 的 emitWith 共用 */
+
+/**
+ * 组合器：把一次发射中所有同步槽的返回值合并为一个结果（类似 Boost.Signals2 的 combiner）
+ * 队列槽、被节流丢弃或防抖延迟的槽以及抛出异常的槽不产生返回值
+ */
+export type Combiner<R, U> = (results: R[]) => U;
+
+/**
+ * 内置组合器
+ */
+export const Combiners = {
+    /** 最后一个槽的返回值，没有槽时为 undefined */
+    last<R>(): Combiner<R, R | undefined> {
+        return results => results[results.length - 1];
+    },
+    /** 按执行顺序收集所有返回值 */
+    collect<R>(): Combiner<R, R[]> {
+        return results => results;
+    },
+    /** 第一个不为 undefined 的返回值 */
+    firstDefined<R>(): Combiner<R, R | undefined> {
+        return results => results.find(value => value !== undefined);
+    },
+    /** 所有返回值都为真（没有槽时为 true），适合否决式检查 */
+    allTrue(): Combiner<any, boolean> {
+        return results => results.every(value => !!value);
+    },
+    /** 任一返回值为真（没有槽时为 false） */
+    anyTrue(): Combiner<any, boolean> {
+        return results => results.some(value => !!value);
+    },
+    /** 自定义归约 */
+    reduce<R, U>(reducer: (acc: U, value: R) => U, initial: U): Combiner<R, U> {
+        return results => results.reduce(reducer, initial);
+    }
+};
\ No newline at end of file
@@ -0,0 +1,122 @@
+/* 槽函数异常处理：三个信号实现共用同一个错误处理钩子 */
+
+/**
+ * 信号相关错误的基类（SignalAggregateError、SignalReentrancyError、SignalBridgeError 等）
+ * 编译为 ES5 时继承内置 Error 的子类会丢失原型链（instanceof 失效），在这里统一修正，子类不需要再处理
+ */
+export class SignalError extends Error {
+    constructor(message: string) {
+        super(message);
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'SignalError';
+    }
+}
+
+/**
+ * 槽函数异常的上下文信息
+ */
+export interface SlotErrorInfo {
+    signalName: string;   // 信号名
+    slotId: number;       // 槽（连接）ID
+    target: any;          // 槽函数目标对象
+    args: any[];          // 发射参数
+    error: any;           // 抛出的异常
+}
+
+/**
+ * 槽函数异常的处理方式
+ * - log: 输出到 console.error，继续执行后续槽（默认）
+ * - rethrow: 向发射调用方抛出异常，后续槽不再执行；延迟调用的槽没有调用方可以接收，按 log 处理
+ * - collect: 收集到错误列表（见 takeSlotErrors），继续执行后续槽
+ * - stop: 输出到 console.error，停止本次发射（后续槽不再执行）
+ */
+export type SlotErrorMode = 'log' | 'rethrow' | 'collect' | 'stop';
+
+/**
+ * 错误处理函数，返回处理方式时覆盖 setSlotErrorMode 设置的默认方式
+ */
+export type SlotErrorHandler = (info: SlotErrorInfo) => SlotErrorMode | void;
+
+let _mode: SlotErrorMode = 'log';
+let _handler: SlotErrorHandler | undefined;
+let _collected: SlotErrorInfo[] = [];
+
+/**
+ * 设置槽函数异常的默认处理方式
+ * @param mode 处理方式
+ */
+export function setSlotErrorMode(mode: SlotErrorMode) {
+    _mode = mode;
+}
+
+/**
+ * 获取槽函数异常的默认处理方式
+ */
+export function getSlotErrorMode(): SlotErrorMode {
+    return _mode;
+}
+
+/**
+ * 设置错误处理函数，传入空值时移除
+ * @param handler 错误处理函数
+ */
+export function setSlotErrorHandler(handler?: SlotErrorHandler) {
+    _handler = handler;
+}
+
+/**
+ * 取出 collect 方式收集到的错误并清空列表
+ */
+export function takeSlotErrors(): SlotErrorInfo[] {
+    const errors = _collected;
+    _collected = [];
+    return errors;
+}
+
+/**
+ * 按当前的处理方式处理槽函数异常，rethrow 方式会直接抛出
+ * @param info 异常信息
+ * @param deferred 槽是否在发射之外被调用（队列、微任务、节流/防抖的结尾调用等），此时 rethrow 按 log 处理
+ * @returns 是否需要停止本次发射
+ */
+export function handleSlotError(info: SlotErrorInfo, deferred: boolean = false): boolean {
+    let mode = _mode;
+    if (_handler) {
+        try {
+            mode = _handler(info) || _mode;
+        } catch (e) {
+            console.error('Error in slot error handler:', e);
+        }
+    }
+    // 抛出的异常只会成为未处理的 Promise 拒绝或逃逸到定时器、cc.director
+    if (mode === 'rethrow' && deferred) {
+        mode = 'log';
+    }
+    switch (mode) {
+        case 'rethrow':
+            throw info.error;
+        case 'collect':
+            _collected.push(info);
+            return false;
+        default: {
+            const targetName = info.target ? info.target.constructor.name : 'none';
+            console.error(`Error in slot function for signal "${info.signalName}" (target: ${targetName}):`, info.error);
+            return mode === 'stop';
+        }
+    }
+}
+
+/**
+ * 报告槽函数异常：先通知信号实现自己的 errorOccurred 信号，再按错误处理方式记录或抛出（见 setSlotErrorMode）
+ * errorOccurred 自身的槽抛出异常时调用方不传 notify，不再通知，避免递归
+ * @param info 异常信息
+ * @param notify 发射 errorOccurred 的函数
+ * @param deferred 槽是否在发射之外被调用，见 handleSlotError
+ * @returns 是否需要停止本次发射
+ */
+export function reportSlotError(info: SlotErrorInfo, notify: ((info: SlotErrorInfo) => void) | undefined, deferred: boolean): boolean {
+    if (notify) {
+        notify(info);
+    }
+    return handleSlotError(info, deferred);
+}
\ No newline at end of file
@@ -0,0 +1,238 @@
+/* 队列连接的事件队列和连接类型：队列槽不再各自 setTimeout，而是统一在帧内的固定时机按顺序执行 */
+
+import { getScheduler, SignalScheduler } from './signal-scheduler';
+import { handleSlotError } from './signal-errors';
+
+/**
+ * 连接类型（类似 Qt::ConnectionType），决定槽函数在发射时如何被调用
+ */
+export enum ConnectionType {
+    /** 自动：发射时没有其他信号正在发射则直接调用，嵌套发射时按 Queued 调用 */
+    Auto = 'auto',
+    /** 直接：在 emit 中同步调用（默认） */
+    Direct = 'direct',
+    /** 队列：投递到 EventQueue，随帧执行（与 queued: true 相同） */
+    Queued = 'queued',
+    /** 微任务：当前同步代码执行完后立即调用（Promise.then） */
+    Microtask = 'microtask',
+    /** 宏任务：通过调度器的 setTimeout(0) 调用 */
+    Macrotask = 'macrotask',
+    /** 下一帧：在下一帧 update 之前调用，没有 cc.director 时按 Macrotask 处理 */
+    NextFrame = 'nextFrame',
+}
+
+// 正在执行的发射层数（所有信号实现共享）
+let _emitDepth = 0;
+
+/**
+ * 标记一次发射开始，必须与 leaveEmit 成对调用
+ */
+export function enterEmit() {
+    _emitDepth++;
+}
+
+/**
+ * 标记一次发射结束
+ */
+export function leaveEmit() {
+    _emitDepth--;
+}
+
+/**
+ * 是否有信号正在发射，槽函数在发射之外被调用时没有调用方可以接收它抛出的异常
+ */
+export function isEmitting(): boolean {
+    return _emitDepth > 0;
+}
+
+/**
+ * 从连接选项中取得连接类型，未指定 type 时 queued: true 等同于 ConnectionType.Queued
+ * @param options 连接选项
+ */
+export function connectionTypeOf(options?: { type?: ConnectionType, queued?: boolean }): ConnectionType {
+    if (options && options.type) {
+        return options.type;
+    }
+    return options && options.queued ? ConnectionType.Queued : ConnectionType.Direct;
+}
+
+/**
+ * 确定本次调用实际使用的连接类型，Auto 在嵌套发射中解析为 Queued，否则为 Direct
+ * 需要在 enterEmit 之后调用，当前发射本身不算嵌套
+ * @param type 连接类型
+ */
+export function resolveConnectionType(type: ConnectionType): ConnectionType {
+    if (type === ConnectionType.Auto) {
+        return _emitDepth > 1 ? ConnectionType.Queued : ConnectionType.Direct;
+    }
+    return type;
+}
+
+/**
+ * 按连接类型延迟执行任务，Direct（以及未解析的 Auto）会立即执行
+ * @param type 连接类型
+ * @param task 任务
+ */
+export function postTask(type: ConnectionType, task: () => void) {
+    switch (type) {
+        case ConnectionType.Queued:
+            EventQueue.post(task);
+            break;
+        case ConnectionType.Microtask:
+            Promise.resolve().then(() => runTask(task));
+            break;
+        case ConnectionType.Macrotask:
+            getScheduler().setTimeout(() => runTask(task), 0);
+            break;
+        case ConnectionType.NextFrame:
+            if (typeof cc !== 'undefined' && cc.director && !(typeof CC_EDITOR !== 'undefined' && CC_EDITOR)) {
+                cc.director.once(cc.Director.EVENT_BEFORE_UPDATE, () => runTask(task));
+            } else {
+                getScheduler().setTimeout(() => runTask(task), 0);
+            }
+            break;
+        default:
+            task();
+            break;
+    }
+}
+
+/**
+ * 执行延迟任务，逃逸的异常交给槽函数异常处理（按延迟调用处理），
+ * 不会成为未处理的 Promise 拒绝，也不会抛给定时器、cc.director 或 EventQueue 的执行循环
+ */
+function runTask(task: () => void) {
+    try {
+        task();
+    } catch (error) {
+        handleSlotError({ signalName: 'unknown', slotId: 0, target: null, args: [], error: error }, true);
+    }
+}
+
+/**
+ * 队列连接的事件队列（类似 Qt 事件循环中的 posted events）
+ * - 存在 cc.director 时，首次投递会自动挂到 cc.Director.EVENT_AFTER_UPDATE，每帧 update 之后执行
+ * - 没有 cc.director（如 Node 环境）时，通过调度器的 setTimeout(0) 执行
+ * - frameBudget 限制每次执行的耗时，积压的事件会分摊到后续帧
+ * - 也可以随时调用 process 手动执行
+ */
+export class EventQueue {
+
+    /**
+     * 每次执行的时间预算（毫秒），0 表示不限制
+     * 超出预算后剩余事件留到下一帧，每次至少执行一个事件以保证进度
+     */
+    static frameBudget: number = 0;
+
+    // 待执行的事件
+    private static _queue: (() => void)[] = [];
+
+    // 挂接的 cc.director 事件名
+    private static _attachedEvent?: string;
+
+    // 未挂接 cc.director 时安排了执行的调度器
+    private static _drainScheduler?: SignalScheduler;
+
+    // 是否正在执行队列（事件回调中再次调用 process 时直接返回）
+    private static _processing = false;
+
+    /**
+     * 投递一个事件，在下一次执行队列时调用
+     * @param task 事件回调
+     */
+    static post(task: () => void) {
+        this._queue.push(task);
+        if (!this._attachedEvent && typeof cc !== 'undefined' && cc.director && !(typeof CC_EDITOR !== 'undefined' && CC_EDITOR)) {
+            this.attach();
+        }
+        if (!this._attachedEvent) {
+            this._scheduleDrain();
+        }
+    }
+
+    /**
+     * 执行队列中的事件，执行过程中新投递的事件留到下一次
+     * 三个信号实现的队列连接共享同一个事件队列，各实现的 processEvents 都调用这里
+     * @param budget 时间预算（毫秒），不传时使用 frameBudget
+     * @returns 本次执行的事件数量
+     */
+    static process(budget: number = this.frameBudget): number {
+        if (this._processing) return 0;
+        const scheduler = getScheduler();
+        const startTime = scheduler.now();
+        let remaining = this._queue.length;
+        let processed = 0;
+        this._processing = true;
+        try {
+            while (remaining-- > 0 && this._queue.length > 0) {
+                const task = this._queue.shift();
+                processed++;
+                // 单个事件抛出异常不影响本帧后续事件
+                runTask(task);
+                if (budget > 0 && scheduler.now() - startTime >= budget) {
+                    break;
+                }
+            }
+        } finally {
+            this._processing = false;
+        }
+        // 未挂接 cc.director 时，剩余事件继续安排执行
+        if (!this._attachedEvent && this._queue.length > 0) {
+            this._scheduleDrain();
+        }
+        return processed;
+    }
+
+    /**
+     * 等待执行的事件数量
+     */
+    static get size(): number {
+        return this._queue.length;
+    }
+
+    /**
+     * 挂接到 cc.director 的帧事件，每帧在该时机执行队列
+     * @param eventName cc.Director 的事件名，默认 EVENT_AFTER_UPDATE
+     */
+    static attach(eventName: string = cc.Director.EVENT_AFTER_UPDATE) {
+        this.detach();
+        this._attachedEvent = eventName;
+        cc.director.on(eventName, this._onFrame, this);
+    }
+
+    /**
+     * 取消挂接，之后的事件通过调度器的 setTimeout(0) 执行
+     */
+    static detach() {
+        if (!this._attachedEvent) return;
+        cc.director.off(this._attachedEvent, this._onFrame, this);
+        this._attachedEvent = undefined;
+        if (this._queue.length > 0) {
+            this._scheduleDrain();
+        }
+    }
+
+    /**
+     * 清空队列（用于测试或场景切换）
+     */
+    static clear() {
+        this._queue.length = 0;
+    }
+
+    private static _onFrame() {
+        this.process();
+    }
+
+    private static _scheduleDrain() {
+        // 调度器已被替换时原调度器的定时器不一定还会执行，需要在新调度器上重新安排
+        const scheduler = getScheduler();
+        if (this._drainScheduler === scheduler) return;
+        this._drainScheduler = scheduler;
+        scheduler.setTimeout(() => {
+            if (this._drainScheduler === scheduler) {
+                this._drainScheduler = undefined;
+            }
+            this.process();
+        }, 0);
+    }
+}
\ No newline at end of file
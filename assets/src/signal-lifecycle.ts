@@ -0,0 +1,67 @@
+/* 槽目标生命周期辅助：cc.Component / cc.Node 销毁后自动断开连接 */
+
+// 组件 -> 销毁时需要执行的回调集合
+const _destroyCallbacks = new WeakMap<object, Set<() => void>>();
+
+function noop() { }
+
+/**
+ * 槽目标是否为已销毁（或已调用 destroy 即将销毁）的 cc.Node / cc.Component
+ * @param target 槽函数目标对象
+ */
+export function isDestroyedTarget(target: any): boolean {
+    if (!target || typeof cc === 'undefined' || !(target instanceof cc.Object)) {
+        return false;
+    }
+    return !cc.isValid(target, true);
+}
+
+/**
+ * 在 cc.Component 的 onDestroy 执行后调用回调
+ * 通过在组件实例上包装 onDestroy 实现，原有的 onDestroy 会先执行
+ * cc.Node 没有可包装的生命周期方法，只能依赖 isDestroyedTarget 在发射时检查
+ * @param target 槽函数目标对象
+ * @param callback 销毁时的回调
+ * @returns 取消注册的函数
+ */
+export function onTargetDestroyed(target: any, callback: () => void): () => void {
+    if (!target || typeof cc === 'undefined' || !(target instanceof cc.Component)) {
+        return noop;
+    }
+    // onDestroy 在声明文件中是 protected，这里需要在实例上替换
+    const component: any = target;
+    let callbacks = _destroyCallbacks.get(component);
+    if (!callbacks) {
+        callbacks = new Set();
+        _destroyCallbacks.set(component, callbacks);
+        const original = component.onDestroy;
+        component.onDestroy = function () {
+            const pending = _destroyCallbacks.get(this);
+            _destroyCallbacks.delete(this);
+            try {
+                if (original) {
+                    original.apply(this, arguments);
+                }
+            } finally {
+                if (pending) {
+                    pending.forEach(fn => fn());
+                }
+            }
+        };
+    }
+    callbacks.add(callback);
+    return () => {
+        callbacks.delete(callback);
+    };
+}
+
+/**
+ * 槽连接的自动断开，三个信号实现的 connect 都通过它注册
+ * 目标为 cc.Component 时，在其 onDestroy 后自动断开；其他目标（包括 cc.Node）不做处理，发射时由 isDestroyedTarget 跳过
+ * @param target 槽函数目标对象
+ * @param disconnect 断开连接的函数
+ * @returns 取消注册的函数，连接断开时调用
+ */
+export function autoDisconnect(target: any, disconnect: () => void): () => void {
+    return onTargetDestroyed(target, disconnect);
+}
\ No newline at end of file
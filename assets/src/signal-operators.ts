@@ -0,0 +1,167 @@
+/* 信号运算符：map、filter、merge、zip 等派生信号的逻辑，由各信号实现负责连接上游和发射 */
+
+import { getScheduler } from './signal-scheduler';
+
+/**
+ * 运算符实例，每个派生信号一个
+ */
+export interface Operator {
+    /** 第 index 个上游信号发射时调用 */
+    next(index: number, args: any[]): void;
+    /** 派生信号断开时调用，释放定时器等资源 */
+    dispose?(): void;
+}
+
+/**
+ * 运算符工厂
+ * @param emit 发射派生信号
+ * @param complete 结束派生信号（断开上游连接），用于 take
+ */
+export type OperatorFactory = (emit: (args: any[]) => void, complete: () => void) => Operator;
+
+/**
+ * 信号的值：多参数信号在 zip/combineLatest 中只取第一个参数，需要全部参数时先用 map 合并
+ */
+export type SignalValue<T> = T extends (...args: infer P) => any ? P[0] : never;
+
+// 默认的相等比较：参数个数相同且逐个全等
+function argsEqual(a: any[], b: any[]): boolean {
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] !== b[i]) return false;
+    }
+    return true;
+}
+
+/**
+ * 内置运算符
+ */
+export const Operators = {
+    /** 转换参数，派生信号以返回值作为唯一参数发射 */
+    map(fn: (...args: any[]) => any): OperatorFactory {
+        return emit => ({ next: (index, args) => emit([fn(...args)]) });
+    },
+    /** 只在 predicate 返回真时发射 */
+    filter(predicate: (...args: any[]) => boolean): OperatorFactory {
+        return emit => ({
+            next: (index, args) => {
+                if (predicate(...args)) emit(args);
+            }
+        });
+    },
+    /** 任一上游信号发射时都发射 */
+    merge(): OperatorFactory {
+        return emit => ({ next: (index, args) => emit(args) });
+    },
+    /** 每个上游信号都发射过一次后，按顺序配对发射各信号的值 */
+    zip(count: number): OperatorFactory {
+        return emit => {
+            const buffers: any[][] = [];
+            for (let i = 0; i < count; i++) buffers.push([]);
+            return {
+                next: (index, args) => {
+                    buffers[index].push(args[0]);
+                    if (buffers.every(buffer => buffer.length > 0)) {
+                        emit(buffers.map(buffer => buffer.shift()));
+                    }
+                },
+                dispose: () => {
+                    buffers.forEach(buffer => buffer.length = 0);
+                }
+            };
+        };
+    },
+    /** 每个上游信号都发射过后，任一信号发射时发射所有信号的最新值 */
+    combineLatest(count: number): OperatorFactory {
+        return emit => {
+            const latest: any[] = new Array(count);
+            const received: boolean[] = new Array(count);
+            let remaining = count;
+            return {
+                next: (index, args) => {
+                    if (!received[index]) {
+                        received[index] = true;
+                        remaining--;
+                    }
+                    latest[index] = args[0];
+                    if (remaining === 0) emit(latest.slice());
+                }
+            };
+        };
+    },
+    /** 参数与上一次发射相同时不发射 */
+    distinctUntilChanged(equals: (previous: any[], current: any[]) => boolean = argsEqual): OperatorFactory {
+        return emit => {
+            let previous: any[] | undefined;
+            return {
+                next: (index, args) => {
+                    if (previous && equals(previous, args)) return;
+                    previous = args;
+                    emit(args);
+                }
+            };
+        };
+    },
+    /** 累积计算，派生信号以每次的累积结果作为唯一参数发射 */
+    scan(reducer: (acc: any, ...args: any[]) => any, seed: any): OperatorFactory {
+        return emit => {
+            let acc = seed;
+            return {
+                next: (index, args) => {
+                    acc = reducer(acc, ...args);
+                    emit([acc]);
+                }
+            };
+        };
+    },
+    /** 只发射前 count 次，之后自动断开上游连接 */
+    take(count: number): OperatorFactory {
+        return (emit, complete) => {
+            let taken = 0;
+            return {
+                next: (index, args) => {
+                    if (taken < count) {
+                        taken++;
+                        emit(args);
+                    }
+                    if (taken >= count) complete();
+                }
+            };
+        };
+    },
+    /** 跳过前 count 次发射 */
+    skip(count: number): OperatorFactory {
+        return emit => {
+            let skipped = 0;
+            return {
+                next: (index, args) => {
+                    if (skipped < count) {
+                        skipped++;
+                        return;
+                    }
+                    emit(args);
+                }
+            };
+        };
+    },
+    /** 延迟 ms 毫秒后发射（通过调度器计时），断开时取消尚未发射的 */
+    delay(ms: number): OperatorFactory {
+        return emit => {
+            const scheduler = getScheduler();
+            const handles = new Set<any>();
+            return {
+                next: (index, args) => {
+                    const handle = scheduler.setTimeout(() => {
+                        handles.delete(handle);
+                        emit(args);
+                    }, ms);
+                    handles.add(handle);
+                },
+                dispose: () => {
+                    handles.forEach(handle => scheduler.clearTimeout(handle));
+                    handles.clear();
+                }
+            };
+        };
+    }
+};
\ No newline at end of file
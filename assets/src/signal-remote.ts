@@ -0,0 +1,549 @@
+/* 远程对象（类似 QtRemoteObjects）：通过 WebSocket 风格的传输把对象的信号发布给另一个进程中的副本 */
+
+import { Signal, signalMembers as qtSignalMembers } from './qt-signal';
+import { Signal as Signal2 } from './signal2/qt-signal2';
+import { getScheduler } from './signal-scheduler';
+import { handleSlotError } from './signal-errors';
+import { SignalBridgeError } from './signal-bridge';
+
+/**
+ * WebSocket 风格的传输（浏览器 WebSocket、ws 库的连接或 LoopbackTransport）
+ * 服务端收到的连接已经打开，不会再触发 onopen
+ */
+export interface RemoteTransport {
+    send(data: string): void;
+    close(): void;
+    onopen: ((event?: any) => void) | null;
+    onmessage: ((event: { data: any }) => void) | null;
+    onclose: ((event?: any) => void) | null;
+    onerror?: ((event?: any) => void) | null;
+}
+
+// 远程对象协议消息
+interface RemoteMessage {
+    type: 'subscribe' | 'init' | 'resync' | 'emit' | 'error';
+    object: string;
+    session?: string;   // 服务端会话标识，服务端重启后变化
+    seq?: number;       // 发射序号
+    member?: string;    // 信号成员名
+    args?: any[];
+    state?: any;        // 对象状态快照
+    message?: string;
+}
+
+/**
+ * 内存中的传输，用于测试；消息通过调度器的 setTimeout(0) 异步送达，可配合 FakeClock 使用
+ */
+export class LoopbackTransport implements RemoteTransport {
+    onopen: ((event?: any) => void) | null = null;
+    onmessage: ((event: { data: any }) => void) | null = null;
+    onclose: ((event?: any) => void) | null = null;
+    onerror: ((event?: any) => void) | null = null;
+
+    private _peer?: LoopbackTransport;
+    private _open = false;
+
+    /**
+     * 创建一对互相连接的传输，两端在下一次调度时触发 onopen
+     */
+    static pair(): [LoopbackTransport, LoopbackTransport] {
+        const a = new LoopbackTransport();
+        const b = new LoopbackTransport();
+        a._peer = b;
+        b._peer = a;
+        a._open = b._open = true;
+        getScheduler().setTimeout(() => {
+            if (a._open && a.onopen) a.onopen();
+            if (b._open && b.onopen) b.onopen();
+        }, 0);
+        return [a, b];
+    }
+
+    /**
+     * 连接是否打开
+     */
+    get isOpen() { return this._open; }
+
+    send(data: string) {
+        if (!this._open) {
+            throw new Error('LoopbackTransport is closed');
+        }
+        const peer = this._peer;
+        getScheduler().setTimeout(() => {
+            if (peer._open && peer.onmessage) peer.onmessage({ data: data });
+        }, 0);
+    }
+
+    /**
+     * 关闭连接，两端在下一次调度时触发 onclose（也用于模拟断线）
+     */
+    close() {
+        if (!this._open) return;
+        const peer = this._peer;
+        this._open = peer._open = false;
+        getScheduler().setTimeout(() => {
+            if (this.onclose) this.onclose();
+            if (peer.onclose) peer.onclose();
+        }, 0);
+    }
+}
+
+/**
+ * 内存中的服务端，connect 返回客户端传输，服务端传输通过 onconnection 交给 RemoteHost
+ * @example
+ * const server = new LoopbackServer();
+ * server.onconnection = socket => host.addConnection(socket);
+ * const replica = new RemoteReplica('player', () => server.connect());
+ */
+export class LoopbackServer {
+    onconnection: ((socket: RemoteTransport) => void) | null = null;
+    private _sockets: LoopbackTransport[] = [];
+
+    connect(): RemoteTransport {
+        const [client, server] = LoopbackTransport.pair();
+        this._sockets.push(server);
+        if (this.onconnection) {
+            this.onconnection(server);
+        }
+        return client;
+    }
+
+    /**
+     * 关闭所有连接（模拟网络中断）
+     */
+    disconnectAll() {
+        const sockets = this._sockets;
+        this._sockets = [];
+        sockets.forEach(socket => socket.close());
+    }
+}
+
+/**
+ * 把值转换为可以用 JSON 发送的形式，类实例只保留自身可枚举属性，优先使用 toJSON，Error 转换为 { name, message, stack }
+ * JSON 无法还原的值（Map、Set、Date、RegExp、二进制数据、BigInt、循环引用）和函数抛出 SignalBridgeError，
+ * 而不是在副本上变成 {} 或字符串
+ * @param value 要发送的值
+ */
+function toJsonSafe(value: any, ancestors: object[] = []): any {
+    if (value === null || value === undefined) return value;
+    const type = typeof value;
+    if (type === 'function' || type === 'symbol' || type === 'bigint') {
+        throw new SignalBridgeError(`Cannot send a ${type} to remote replicas`);
+    }
+    if (type !== 'object') return value;
+    if (value instanceof Map || value instanceof Set || value instanceof Date || value instanceof RegExp
+        || value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+        throw new SignalBridgeError(`Cannot send a ${value.constructor.name} to remote replicas, convert it to plain data first`);
+    }
+    if (ancestors.indexOf(value) >= 0) {
+        throw new SignalBridgeError('Cannot send a circular structure to remote replicas');
+    }
+    if (value instanceof Error) {
+        return { name: value.name, message: value.message, stack: value.stack };
+    }
+    ancestors.push(value);
+    let result: any;
+    if (Array.isArray(value)) {
+        result = value.map(item => toJsonSafe(item, ancestors));
+    } else if (typeof value.toJSON === 'function') {
+        result = toJsonSafe(value.toJSON(), ancestors);
+    } else {
+        result = {};
+        for (const key of Object.keys(value)) {
+            // 与 JSON 一致，跳过函数属性
+            if (typeof value[key] === 'function') continue;
+            result[key] = toJsonSafe(value[key], ancestors);
+        }
+    }
+    ancestors.pop();
+    return result;
+}
+
+function encode(message: RemoteMessage): string {
+    return JSON.stringify(message);
+}
+
+function decode(data: any): RemoteMessage | undefined {
+    try {
+        const message = typeof data === 'string' ? JSON.parse(data) : data;
+        return message && typeof message.type === 'string' && typeof message.object === 'string' ? message : undefined;
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * 远程发布的选项
+ */
+export interface RemotingOptions {
+    /** 发布的信号成员名，默认发布对象上所有 @signal 成员（qt-signal2 的信号函数和 qt-signal 的 Signal 实例） */
+    signals?: string[];
+    /** 对象状态快照，副本初始化和重新同步时发送 */
+    snapshot?: () => any;
+}
+
+// 发布的对象
+interface RemotedObject {
+    seq: number;
+    history: { seq: number, member: string, args: any[] }[];
+    subscribers: Set<RemoteTransport>;
+    connections: { disconnect(): void }[];
+    snapshot?: () => any;
+}
+
+// qt-signal 的 Signal 实例或 qt-signal2 的信号函数引用
+type SignalMember = Signal<any> | ((...args: any[]) => void);
+
+// 对象上的信号成员：从两种信号实现的装饰器登记中取得，不会调用对象上的其他访问器
+function signalMembers(object: object): Map<string, SignalMember> {
+    const members = new Map<string, SignalMember>(qtSignalMembers(object));
+    Signal2.signalMembers(object).forEach((signal, member) => members.set(member, signal));
+    return members;
+}
+
+/**
+ * 远程对象的服务端：发布对象的信号，每次发射按序号发送给所有副本
+ * 最近的发射保存在历史中，副本断线重连后补发缺失的发射；缺失过多或服务端重启时发送状态快照重新同步
+ */
+export class RemoteHost {
+    // 会话标识，副本据此判断服务端是否重启
+    readonly session = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+    private _objects = new Map<string, RemotedObject>();
+    private _sockets = new Set<RemoteTransport>();
+    private _historySize: number;
+
+    /**
+     * @param historySize 每个对象保存的最近发射数量，用于断线重连后补发
+     */
+    constructor(historySize: number = 100) {
+        this._historySize = historySize;
+    }
+
+    /**
+     * 发布对象
+     * @param object 声明了 @signal 的对象
+     * @param name 发布名称，副本按该名称获取
+     * @param options 选项
+     */
+    enableRemoting(object: any, name: string, options?: RemotingOptions) {
+        this.disableRemoting(name);
+        const remoted: RemotedObject = { seq: 0, history: [], subscribers: new Set(), connections: [], snapshot: options && options.snapshot };
+        const members = options && options.signals
+            ? options.signals.map(member => [member, object[member]] as [string, SignalMember])
+            : Array.from(signalMembers(object));
+        for (const [member, signal] of members) {
+            const slot = (...args: any[]) => this._publish(name, remoted, member, args);
+            if (signal instanceof Signal) {
+                remoted.connections.push(signal.connect(slot));
+            } else {
+                remoted.connections.push(Signal2.connect(signal, slot));
+            }
+        }
+        this._objects.set(name, remoted);
+    }
+
+    /**
+     * 取消发布对象
+     * @param name 发布名称
+     */
+    disableRemoting(name: string) {
+        const remoted = this._objects.get(name);
+        if (!remoted) return;
+        remoted.connections.forEach(connection => connection.disconnect());
+        this._objects.delete(name);
+    }
+
+    /**
+     * 接入一个副本连接（服务端收到的 WebSocket 连接或 LoopbackServer 的连接）
+     * @param socket 已打开的连接
+     */
+    addConnection(socket: RemoteTransport) {
+        this._sockets.add(socket);
+        socket.onmessage = event => {
+            const message = decode(event.data);
+            if (message && message.type === 'subscribe') {
+                this._subscribe(socket, message);
+            }
+        };
+        socket.onclose = () => {
+            this._sockets.delete(socket);
+            this._objects.forEach(remoted => remoted.subscribers.delete(socket));
+        };
+    }
+
+    /**
+     * 关闭所有连接并取消发布所有对象
+     */
+    close() {
+        [...this._objects.keys()].forEach(name => this.disableRemoting(name));
+        this._sockets.forEach(socket => socket.close());
+        this._sockets.clear();
+    }
+
+    private _publish(name: string, remoted: RemotedObject, member: string, args: any[]) {
+        let safeArgs: any[];
+        try {
+            safeArgs = toJsonSafe(args);
+        } catch (error) {
+            // 参数无法发送（例如函数、Map）时只报告，不抛给发射方，也不占用序号
+            handleSlotError({ signalName: `${name}.${member}`, slotId: 0, target: this, args: args, error: error }, true);
+            return;
+        }
+        const entry = { seq: ++remoted.seq, member: member, args: safeArgs };
+        remoted.history.push(entry);
+        if (remoted.history.length > this._historySize) {
+            remoted.history.shift();
+        }
+        const data = encode({ type: 'emit', object: name, session: this.session, seq: entry.seq, member: member, args: entry.args });
+        remoted.subscribers.forEach(socket => this._send(socket, data));
+    }
+
+    private _subscribe(socket: RemoteTransport, message: RemoteMessage) {
+        const name = message.object;
+        const remoted = this._objects.get(name);
+        if (!remoted) {
+            this._send(socket, encode({ type: 'error', object: name, message: `Object "${name}" is not remoted` }));
+            return;
+        }
+        remoted.subscribers.add(socket);
+        const lastSeq = message.seq;
+        const oldest = remoted.history.length > 0 ? remoted.history[0].seq : remoted.seq + 1;
+        // 首次订阅
+        if (lastSeq === undefined) {
+            this._send(socket, encode({ type: 'init', object: name, session: this.session, seq: remoted.seq, state: this._snapshot(name, remoted) }));
+            return;
+        }
+        // 服务端重启、副本序号超前或缺失的发射已不在历史中时，发送快照重新同步
+        if (message.session !== this.session || lastSeq > remoted.seq || lastSeq + 1 < oldest) {
+            this._send(socket, encode({ type: 'resync', object: name, session: this.session, seq: remoted.seq, state: this._snapshot(name, remoted) }));
+            return;
+        }
+        // 补发缺失的发射
+        for (const entry of remoted.history) {
+            if (entry.seq > lastSeq) {
+                this._send(socket, encode({ type: 'emit', object: name, session: this.session, seq: entry.seq, member: entry.member, args: entry.args }));
+            }
+        }
+    }
+
+    // 快照无法发送时报告错误，副本收到空的状态
+    private _snapshot(name: string, remoted: RemotedObject): any {
+        if (!remoted.snapshot) return undefined;
+        const state = remoted.snapshot();
+        try {
+            return toJsonSafe(state);
+        } catch (error) {
+            handleSlotError({ signalName: `${name}.snapshot`, slotId: 0, target: this, args: [state], error: error }, true);
+            return undefined;
+        }
+    }
+
+    private _send(socket: RemoteTransport, data: string) {
+        try {
+            socket.send(data);
+        } catch (e) {
+            // 发送失败的连接等待 onclose 清理
+        }
+    }
+}
+
+/**
+ * 副本选项
+ */
+export interface ReplicaOptions {
+    /** 首次重连延迟（毫秒），之后每次翻倍（默认 1000） */
+    reconnectDelay?: number;
+    /** 最大重连延迟（毫秒，默认 30000） */
+    maxReconnectDelay?: number;
+    /** 最大连续重连次数（默认不限制） */
+    maxReconnectAttempts?: number;
+}
+
+let _nextReplicaId = 1;
+
+/**
+ * 远程对象的副本：连接服务端并以 qt-signal2 信号的形式重新发射远程对象的信号
+ * 断线后自动重连，重连后补发缺失的发射或按快照重新同步
+ * @example
+ * const replica = new RemoteReplica('player', () => new WebSocket('ws://127.0.0.1:9000'));
+ * Signal.connect(replica.signal('hpChanged'), (hp: number) => this.hpLabel.string = `${hp}`);
+ * replica.resynced.connect(state => this.refresh(state));
+ */
+export class RemoteReplica {
+    readonly objectName: string;
+
+    /** 连接（或重连）成功时发射 */
+    readonly connected = new Signal<() => void>('connected');
+    /** 连接断开时发射 */
+    readonly disconnected = new Signal<() => void>('disconnected');
+    /** 首次同步完成时发射，参数为对象状态快照 */
+    readonly initialized = new Signal<(state: any) => void>('initialized');
+    /** 缺失的发射无法补发（或服务端重启）而按快照重新同步时发射 */
+    readonly resynced = new Signal<(state: any) => void>('resynced');
+    /** 服务端报告错误或收到无法解析的消息时发射 */
+    readonly errorOccurred = new Signal<(error: Error) => void>('errorOccurred');
+
+    private _connect: () => RemoteTransport;
+    private _options: ReplicaOptions;
+    private _id = _nextReplicaId++;
+    private _socket?: RemoteTransport;
+    private _signals = new Map<string, (...args: any[]) => void>();
+    private _isConnected = false;
+    private _closed = false;
+    private _session?: string;
+    private _seq?: number;
+    private _state: any;
+    private _attempts = 0;
+    private _reconnectTimer: any;
+
+    /**
+     * @param objectName 服务端的发布名称
+     * @param connect 创建连接的函数，重连时会再次调用
+     * @param options 选项
+     */
+    constructor(objectName: string, connect: () => RemoteTransport, options?: ReplicaOptions) {
+        this.objectName = objectName;
+        this._connect = connect;
+        this._options = options || {};
+        this._open();
+    }
+
+    /**
+     * 远程对象信号成员对应的本地 qt-signal2 信号
+     * @param member 信号成员名
+     */
+    signal<T extends (...args: any[]) => void = (...args: any[]) => void>(member: string): T {
+        let signal = this._signals.get(member);
+        if (!signal) {
+            const anonymous = function () { };
+            anonymous['__signalName'] = `remote:${this.objectName}.${member}#${this._id}`;
+            signal = anonymous;
+            this._signals.set(member, signal);
+        }
+        return signal as T;
+    }
+
+    /** 是否已连接 */
+    get isConnected() { return this._isConnected; }
+
+    /** 最近一次快照 */
+    get state() { return this._state; }
+
+    /** 已处理的最后一次发射的序号，未同步时为 undefined */
+    get lastSeq() { return this._seq; }
+
+    /**
+     * 关闭副本，不再重连
+     */
+    close() {
+        if (this._closed) return;
+        this._closed = true;
+        if (this._reconnectTimer !== undefined) {
+            getScheduler().clearTimeout(this._reconnectTimer);
+            this._reconnectTimer = undefined;
+        }
+        const socket = this._socket;
+        this._socket = undefined;
+        if (socket) {
+            socket.onclose = null;
+            socket.close();
+        }
+        if (this._isConnected) {
+            this._isConnected = false;
+            this.disconnected.emit();
+        }
+    }
+
+    private _open() {
+        let socket: RemoteTransport;
+        try {
+            socket = this._connect();
+        } catch (e) {
+            this.errorOccurred.emit(e instanceof Error ? e : new Error(String(e)));
+            this._scheduleReconnect();
+            return;
+        }
+        this._socket = socket;
+        socket.onopen = () => {
+            this._attempts = 0;
+            this._isConnected = true;
+            // 带上已处理的序号，服务端据此补发或重新同步
+            this._sendSubscribe();
+            this.connected.emit();
+        };
+        socket.onmessage = event => this._onMessage(event.data);
+        socket.onclose = () => {
+            if (this._socket !== socket) return;
+            this._socket = undefined;
+            if (this._isConnected) {
+                this._isConnected = false;
+                this.disconnected.emit();
+            }
+            this._scheduleReconnect();
+        };
+    }
+
+    private _sendSubscribe() {
+        if (!this._socket) return;
+        try {
+            this._socket.send(encode({ type: 'subscribe', object: this.objectName, session: this._session, seq: this._seq }));
+        } catch (e) {
+            // 发送失败时等待 onclose 重连
+        }
+    }
+
+    private _scheduleReconnect() {
+        if (this._closed) return;
+        const options = this._options;
+        if (options.maxReconnectAttempts !== undefined && this._attempts >= options.maxReconnectAttempts) return;
+        const base = options.reconnectDelay !== undefined ? options.reconnectDelay : 1000;
+        const max = options.maxReconnectDelay !== undefined ? options.maxReconnectDelay : 30000;
+        const delay = Math.min(base * Math.pow(2, this._attempts), max);
+        this._attempts++;
+        this._reconnectTimer = getScheduler().setTimeout(() => {
+            this._reconnectTimer = undefined;
+            this._open();
+        }, delay);
+    }
+
+    private _onMessage(data: any) {
+        const message = decode(data);
+        if (!message) {
+            this.errorOccurred.emit(new Error('Malformed remote object message'));
+            return;
+        }
+        if (message.object !== this.objectName) return;
+        switch (message.type) {
+            case 'init':
+            case 'resync':
+                this._session = message.session;
+                this._seq = message.seq;
+                this._state = message.state;
+                if (message.type === 'init') {
+                    this.initialized.emit(message.state);
+                } else {
+                    this.resynced.emit(message.state);
+                }
+                break;
+            case 'emit':
+                this._onEmit(message);
+                break;
+            case 'error':
+                this.errorOccurred.emit(new Error(message.message));
+                break;
+        }
+    }
+
+    private _onEmit(message: RemoteMessage) {
+        // 还没有同步或序号不连续（丢失了消息）时重新订阅，由服务端补发或重新同步
+        if (this._seq === undefined || message.session !== this._session) return;
+        if (message.seq <= this._seq) return;
+        if (message.seq > this._seq + 1) {
+            this._sendSubscribe();
+            return;
+        }
+        this._seq = message.seq;
+        Signal2.emit(this.signal(message.member), ...(message.args || []));
+    }
+}
\ No newline at end of file
@@ -0,0 +1,147 @@
+/* 信号库的计时调度：队列槽、节流、防抖以及超时都通过这里获取时间和设置定时器 */
+
+/**
+ * 调度器接口，时间单位均为毫秒
+ */
+export interface SignalScheduler {
+    /** 当前时间 */
+    now(): number;
+    /** 延迟执行回调，返回可用于取消的句柄 */
+    setTimeout(callback: () => void, delay: number): any;
+    /** 取消 setTimeout 设置的回调 */
+    clearTimeout(handle: any): void;
+}
+
+/**
+ * 使用全局 setTimeout 和 Date.now 的调度器（默认）
+ */
+export class TimerScheduler implements SignalScheduler {
+    now(): number {
+        return Date.now();
+    }
+    setTimeout(callback: () => void, delay: number): any {
+        return setTimeout(callback, delay);
+    }
+    clearTimeout(handle: any): void {
+        clearTimeout(handle);
+    }
+}
+
+/**
+ * 使用 cc.director.getScheduler() 的调度器
+ * 定时器随游戏暂停而暂停，受 timeScale 影响，时间取 cc.director.getTotalTime()
+ */
+export class CocosScheduler implements SignalScheduler {
+    now(): number {
+        return cc.director.getTotalTime();
+    }
+    setTimeout(callback: () => void, delay: number): any {
+        // 每个定时器使用独立的目标对象，便于单独取消
+        const target = {};
+        (cc.Scheduler as any).enableForTarget(target);
+        const handle = { target: target, callback: callback };
+        cc.director.getScheduler().schedule(callback, target, 0, 0, Math.max(delay, 0) / 1000, false);
+        return handle;
+    }
+    clearTimeout(handle: any): void {
+        if (handle) {
+            cc.director.getScheduler().unschedule(handle.callback, handle.target);
+        }
+    }
+}
+
+/**
+ * 手动推进的假时钟，用于确定性地测试队列、节流和防抖连接
+ * @example
+ * const clock = new FakeClock();
+ * setScheduler(clock);
+ * Signal.emit('search', 'a');
+ * clock.advance(300);
+ */
+export class FakeClock implements SignalScheduler {
+    private _now: number;
+    private _nextId = 1;
+    private _timers: { id: number, time: number, callback: () => void }[] = [];
+
+    constructor(startTime: number = 0) {
+        this._now = startTime;
+    }
+
+    now(): number {
+        return this._now;
+    }
+
+    setTimeout(callback: () => void, delay: number): any {
+        const id = this._nextId++;
+        this._timers.push({ id: id, time: this._now + Math.max(delay || 0, 0), callback: callback });
+        return id;
+    }
+
+    clearTimeout(handle: any): void {
+        this._timers = this._timers.filter(timer => timer.id !== handle);
+    }
+
+    /** 等待执行的定时器数量 */
+    get pendingTimers(): number {
+        return this._timers.length;
+    }
+
+    /**
+     * 推进时间，按到期时间顺序执行期间到期的定时器（包括执行过程中新设置的）
+     * @param ms 推进的毫秒数
+     */
+    advance(ms: number) {
+        const endTime = this._now + ms;
+        let timer = this._nextDue(endTime);
+        while (timer) {
+            this._timers.splice(this._timers.indexOf(timer), 1);
+            this._now = timer.time;
+            timer.callback();
+            timer = this._nextDue(endTime);
+        }
+        this._now = endTime;
+    }
+
+    /**
+     * 执行所有等待中的定时器，时间推进到最后一个定时器的到期时间
+     * @param limit 最多执行的定时器数量，防止定时器无限重复设置
+     */
+    runAll(limit: number = 1000) {
+        while (this._timers.length > 0 && limit-- > 0) {
+            const timer = this._nextDue(Infinity);
+            this._timers.splice(this._timers.indexOf(timer), 1);
+            this._now = Math.max(this._now, timer.time);
+            timer.callback();
+        }
+    }
+
+    // 到期时间不晚于 endTime 的最早定时器，同时到期时按设置顺序
+    private _nextDue(endTime: number) {
+        let next: { id: number, time: number, callback: () => void } | undefined;
+        for (const timer of this._timers) {
+            if (timer.time > endTime) continue;
+            if (!next || timer.time < next.time || (timer.time === next.time && timer.id < next.id)) {
+                next = timer;
+            }
+        }
+        return next;
+    }
+}
+
+let _scheduler: SignalScheduler = new TimerScheduler();
+
+/**
+ * 获取当前使用的调度器
+ */
+export function getScheduler(): SignalScheduler {
+    return _scheduler;
+}
+
+/**
+ * 替换信号库使用的调度器，传入空值时恢复默认的 TimerScheduler
+ * 已经设置的定时器仍由原调度器执行
+ * @param scheduler 新的调度器
+ */
+export function setScheduler(scheduler?: SignalScheduler) {
+    _scheduler = scheduler || new TimerScheduler();
+}
\ No newline at end of file
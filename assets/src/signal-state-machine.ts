@@ -0,0 +1,526 @@
+/* 信号驱动的层次状态机（类似 QStateMachine）：转换由任一信号实现的信号触发 */
+
+import { Signal } from './qt-signal';
+import { Signal as Signal2 } from './signal2/qt-signal2';
+import { Signal as Signal3 } from './signal3/qt-signal3';
+
+/**
+ * 触发转换的信号：
+ * - qt-signal 的 Signal 实例
+ * - qt-signal2 的 @signal 属性或信号名（字符串）
+ * - qt-signal3 的 @signal 属性（带 signalName 的函数）
+ */
+export type TriggerSignal = Signal<any> | ((...args: any[]) => void) | string;
+
+/**
+ * 子状态模式
+ * - exclusive: 同一时间只有一个子状态处于活动状态
+ * - parallel: 所有子状态（区域）同时处于活动状态
+ */
+export type ChildMode = 'exclusive' | 'parallel';
+
+/**
+ * 历史状态类型
+ * - shallow: 恢复父状态上次的直接子状态
+ * - deep: 恢复父状态上次的所有叶子状态
+ */
+export type HistoryType = 'shallow' | 'deep';
+
+/**
+ * 按信号的实现方式连接触发函数
+ * 粘性信号不重放：只有进入源状态之后的发射才触发转换（qt-signal3 没有粘性信号）
+ */
+function connectTrigger(signal: TriggerSignal, callback: (...args: any[]) => void): { disconnect(): void } {
+    if (signal instanceof Signal) {
+        return signal.connect(callback, undefined, { replay: false });
+    }
+    if (typeof signal === 'function' && signal['signalName'] && !signal['__signalName']) {
+        return Signal3.connect(signal, callback);
+    }
+    return Signal2.connect(signal, callback, null, { replay: false });
+}
+
+/**
+ * 状态转换，源状态处于活动状态时连接触发信号
+ */
+export class Transition {
+    readonly source: State;
+    readonly target?: State;
+    readonly signal: TriggerSignal;
+    readonly guard?: (...args: any[]) => boolean;
+
+    /**
+     * 转换执行时发射（退出源状态之后、进入目标状态之前），参数为触发信号的参数
+     */
+    readonly triggered = new Signal<(...args: any[]) => void>('triggered');
+
+    private _connection?: { disconnect(): void };
+
+    constructor(source: State, signal: TriggerSignal, target?: State, guard?: (...args: any[]) => boolean) {
+        this.source = source;
+        this.signal = signal;
+        this.target = target;
+        this.guard = guard;
+    }
+
+    /**
+     * 连接触发信号（由状态机在源状态进入时调用）
+     * @param callback 触发时的回调
+     */
+    attach(callback: (transition: Transition, args: any[]) => void) {
+        if (this._connection) return;
+        this._connection = connectTrigger(this.signal, (...args: any[]) => callback(this, args));
+    }
+
+    /**
+     * 断开触发信号（由状态机在源状态退出时调用）
+     */
+    detach() {
+        if (this._connection) {
+            this._connection.disconnect();
+            this._connection = undefined;
+        }
+    }
+}
+
+/**
+ * 状态，可以包含子状态构成层次结构
+ * @example
+ * const machine = new StateMachine();
+ * const menu = new State('menu', machine);
+ * const playing = new State('playing', machine);
+ * menu.addTransition(hud.startClicked, playing);
+ * playing.entered.connect(() => this.startGame());
+ * machine.start();
+ */
+export class State {
+    readonly name: string;
+    readonly parent?: State;
+    readonly childMode: ChildMode;
+    readonly children: State[] = [];
+    readonly transitions: Transition[] = [];
+
+    /**
+     * 初始子状态，未设置时使用第一个子状态（exclusive 模式）
+     */
+    initialState?: State;
+
+    /** 进入状态时发射 */
+    readonly entered: Signal<() => void>;
+    /** 退出状态时发射 */
+    readonly exited: Signal<() => void>;
+    /** 进入最终子状态（parallel 模式下所有区域都进入最终状态）时发射 */
+    readonly finished: Signal<() => void>;
+
+    /**
+     * @param name 状态名（用于调试）
+     * @param parent 父状态
+     * @param childMode 子状态模式
+     */
+    constructor(name: string, parent?: State, childMode: ChildMode = 'exclusive') {
+        this.name = name;
+        this.parent = parent;
+        this.childMode = childMode;
+        this.entered = new Signal(`${name}.entered`);
+        this.exited = new Signal(`${name}.exited`);
+        this.finished = new Signal(`${name}.finished`);
+        if (parent) {
+            parent.children.push(this);
+        }
+    }
+
+    /**
+     * 所属的状态机
+     */
+    get machine(): StateMachine | undefined {
+        let state: State = this;
+        while (state.parent) {
+            state = state.parent;
+        }
+        return state instanceof StateMachine ? state : undefined;
+    }
+
+    /**
+     * 是否处于活动状态
+     */
+    get active(): boolean {
+        const machine = this.machine;
+        return !!machine && machine.isActive(this);
+    }
+
+    /**
+     * 添加由信号触发的转换
+     * @param signal 触发信号
+     * @param target 目标状态，不传时只发射 triggered 而不改变状态
+     * @param guard 守卫条件，参数为信号参数，返回假时不执行转换
+     * @returns 转换对象
+     */
+    addTransition(signal: TriggerSignal, target?: State, guard?: (...args: any[]) => boolean): Transition {
+        const transition = new Transition(this, signal, target, guard);
+        this.transitions.push(transition);
+        const machine = this.machine;
+        if (machine && machine.isActive(this)) {
+            machine.attachTransition(transition);
+        }
+        return transition;
+    }
+
+    /**
+     * 移除转换
+     * @param transition 转换对象
+     */
+    removeTransition(transition: Transition) {
+        const index = this.transitions.indexOf(transition);
+        if (index === -1) return;
+        this.transitions.splice(index, 1);
+        transition.detach();
+    }
+}
+
+/**
+ * 历史状态（伪状态），作为转换目标时恢复父状态上次退出时的子状态
+ */
+export class HistoryState extends State {
+    readonly historyType: HistoryType;
+
+    /**
+     * 父状态还没有退出过时进入的状态，未设置时进入父状态的初始状态
+     */
+    defaultState?: State;
+
+    /**
+     * 父状态上次退出时记录的状态
+     */
+    recorded: State[] = [];
+
+    constructor(parent: State, historyType: HistoryType = 'shallow', name: string = `${parent.name}.history`) {
+        super(name, parent);
+        this.historyType = historyType;
+    }
+}
+
+/**
+ * 最终状态，进入时父状态发射 finished；位于并行状态的区域中时，所有区域都进入最终状态后并行状态才发射 finished
+ * 状态机本身完成时结束状态机
+ */
+export class FinalState extends State {
+}
+
+// 实际的子状态（不包括历史状态）
+function substates(state: State): State[] {
+    return state.children.filter(child => !(child instanceof HistoryState));
+}
+
+// state 是否为 ancestor 的后代（不包括自身）
+function isDescendant(state: State, ancestor: State): boolean {
+    for (let parent = state.parent; parent; parent = parent.parent) {
+        if (parent === ancestor) return true;
+    }
+    return false;
+}
+
+// state 的祖先，从近到远，不包括 upTo 及其祖先
+function ancestorsOf(state: State, upTo?: State): State[] {
+    const result: State[] = [];
+    for (let parent = state.parent; parent && parent !== upTo; parent = parent.parent) {
+        result.push(parent);
+    }
+    return result;
+}
+
+/**
+ * 状态机，本身是根状态
+ * 转换按“运行到完成”执行：转换过程中（如 entered 的槽函数里）触发的转换排队，当前转换完成后再执行
+ */
+export class StateMachine extends State {
+
+    /** 启动后发射 */
+    readonly started = new Signal<() => void>('started');
+    /** 停止后发射 */
+    readonly stopped = new Signal<() => void>('stopped');
+
+    // 活动状态集合
+    private _configuration = new Set<State>();
+    private _running = false;
+    // 转换执行过程中触发的转换
+    private _queue: { transition: Transition, args: any[] }[] = [];
+    private _processing = false;
+    private _stopRequested = false;
+
+    constructor(name: string = 'machine', childMode: ChildMode = 'exclusive') {
+        super(name, undefined, childMode);
+    }
+
+    /**
+     * 是否正在运行
+     */
+    get running() { return this._running; }
+
+    /**
+     * 当前的活动状态（按文档顺序）
+     */
+    get configuration(): State[] {
+        return this._documentOrder().filter(state => this._configuration.has(state));
+    }
+
+    /**
+     * 状态是否处于活动状态
+     * @param state 状态
+     */
+    isActive(state: State): boolean {
+        return state === this ? this._running : this._configuration.has(state);
+    }
+
+    /**
+     * 启动状态机，进入初始状态
+     */
+    start() {
+        if (this._running) return;
+        this._running = true;
+        this._processing = true;
+        try {
+            const entrySet = new Set<State>();
+            this._addDescendantsToEnter(this, entrySet);
+            entrySet.delete(this);
+            // 状态机本身的转换在运行期间一直有效
+            for (const transition of this.transitions) {
+                this.attachTransition(transition);
+            }
+            this._enterStates(entrySet);
+        } finally {
+            this._processing = false;
+        }
+        this.started.emit();
+        this._processQueue();
+    }
+
+    /**
+     * 停止状态机，退出所有活动状态
+     * 在转换过程中调用时，当前转换完成后再停止
+     */
+    stop() {
+        if (!this._running) return;
+        if (this._processing) {
+            this._stopRequested = true;
+            return;
+        }
+        this._exitStates(this.configuration.reverse());
+        for (const transition of this.transitions) {
+            transition.detach();
+        }
+        this._running = false;
+        this._queue.length = 0;
+        this.stopped.emit();
+    }
+
+    /**
+     * 连接转换的触发信号（源状态进入时调用）
+     * @param transition 转换
+     */
+    attachTransition(transition: Transition) {
+        transition.attach(this._onTrigger);
+    }
+
+    private _onTrigger = (transition: Transition, args: any[]) => {
+        if (!this._running) return;
+        this._queue.push({ transition: transition, args: args });
+        if (!this._processing) {
+            this._processQueue();
+        }
+    };
+
+    private _processQueue() {
+        while (this._running) {
+            if (this._stopRequested) {
+                this._stopRequested = false;
+                this.stop();
+                break;
+            }
+            const next = this._queue.shift();
+            if (!next) break;
+            this._processing = true;
+            try {
+                this._execute(next.transition, next.args);
+            } finally {
+                this._processing = false;
+            }
+        }
+    }
+
+    /**
+     * 执行一次转换：退出源状态和目标状态的最近公共复合祖先以下的活动状态，再进入目标状态
+     */
+    private _execute(transition: Transition, args: any[]) {
+        // 源状态已经退出或守卫条件不满足时忽略
+        if (!this.isActive(transition.source)) return;
+        if (transition.guard && !transition.guard(...args)) return;
+
+        const target = transition.target;
+        if (!target) {
+            transition.triggered.emit(...args);
+            return;
+        }
+
+        const domain = this._findDomain(transition.source, target);
+        const exitSet = this.configuration.filter(state => isDescendant(state, domain)).reverse();
+        this._exitStates(exitSet);
+
+        transition.triggered.emit(...args);
+
+        const entrySet = new Set<State>();
+        this._addDescendantsToEnter(target, entrySet);
+        this._addAncestorsToEnter(target, domain, entrySet);
+        this._enterStates(entrySet);
+    }
+
+    // 源状态和目标状态的最近公共复合（exclusive）祖先，找不到时为状态机本身
+    private _findDomain(source: State, target: State): State {
+        for (const ancestor of ancestorsOf(source)) {
+            if (ancestor.childMode === 'exclusive' && isDescendant(target, ancestor)) {
+                return ancestor;
+            }
+        }
+        return this;
+    }
+
+    private _addDescendantsToEnter(state: State, entrySet: Set<State>) {
+        if (state instanceof HistoryState) {
+            const parent = state.parent;
+            let restore = state.recorded;
+            if (restore.length === 0) {
+                const fallback = state.defaultState || this._initialOf(parent);
+                restore = fallback ? [fallback] : [];
+            }
+            // 先加入所有要恢复的状态，再补全祖先，避免并行区域先被默认状态占用
+            for (const restored of restore) {
+                this._addDescendantsToEnter(restored, entrySet);
+            }
+            for (const restored of restore) {
+                this._addAncestorsToEnter(restored, parent, entrySet);
+            }
+            return;
+        }
+        entrySet.add(state);
+        const children = substates(state);
+        if (children.length === 0) return;
+        if (state.childMode === 'parallel') {
+            for (const child of children) {
+                if (!this._hasEntryWithin(child, entrySet)) {
+                    this._addDescendantsToEnter(child, entrySet);
+                }
+            }
+        } else {
+            const initial = this._initialOf(state);
+            this._addDescendantsToEnter(initial, entrySet);
+            this._addAncestorsToEnter(initial, state, entrySet);
+        }
+    }
+
+    private _addAncestorsToEnter(state: State, upTo: State, entrySet: Set<State>) {
+        for (const ancestor of ancestorsOf(state, upTo)) {
+            entrySet.add(ancestor);
+            if (ancestor.childMode === 'parallel') {
+                for (const child of substates(ancestor)) {
+                    if (!this._hasEntryWithin(child, entrySet)) {
+                        this._addDescendantsToEnter(child, entrySet);
+                    }
+                }
+            }
+        }
+    }
+
+    // entrySet 中是否已有 state 或其后代
+    private _hasEntryWithin(state: State, entrySet: Set<State>): boolean {
+        for (const entry of entrySet) {
+            if (entry === state || isDescendant(entry, state)) return true;
+        }
+        return false;
+    }
+
+    private _initialOf(state: State): State {
+        return state.initialState || substates(state)[0];
+    }
+
+    private _exitStates(states: State[]) {
+        // 先记录历史，再逐个退出
+        for (const state of states) {
+            for (const child of state.children) {
+                if (!(child instanceof HistoryState)) continue;
+                child.recorded = child.historyType === 'deep'
+                    ? this.configuration.filter(active => isDescendant(active, state) && substates(active).length === 0)
+                    : this.configuration.filter(active => active.parent === state);
+            }
+        }
+        for (const state of states) {
+            this._configuration.delete(state);
+            for (const transition of state.transitions) {
+                transition.detach();
+            }
+            state.exited.emit();
+        }
+    }
+
+    private _enterStates(entrySet: Set<State>) {
+        const order = this._documentOrder();
+        const states = order.filter(state => entrySet.has(state));
+        for (const state of states) {
+            this._configuration.add(state);
+            for (const transition of state.transitions) {
+                this.attachTransition(transition);
+            }
+            state.entered.emit();
+        }
+        // 同时进入多个最终状态时，每个完成的状态只发射一次 finished
+        const done = new Set<State>();
+        for (const state of states) {
+            if (state instanceof FinalState) {
+                this._onFinalEntered(state, done);
+            }
+        }
+    }
+
+    // 复合状态进入最终子状态即完成；最终状态作为并行状态的区域时，要等所有区域都完成
+    private _onFinalEntered(state: FinalState, done: Set<State>) {
+        const parent = state.parent;
+        if (parent.childMode === 'parallel' && !this._isInFinal(parent)) return;
+        this._finish(parent, done);
+    }
+
+    // 状态完成：发射 finished，所在的并行状态的所有区域都完成时并行状态随之完成，状态机完成时停止
+    private _finish(state: State, done: Set<State>) {
+        if (done.has(state)) return;
+        done.add(state);
+        state.finished.emit();
+        if (state === this) {
+            this.stop();
+            return;
+        }
+        const parent = state.parent;
+        if (parent.childMode === 'parallel' && this._isInFinal(parent)) {
+            this._finish(parent, done);
+        }
+    }
+
+    // 复合状态的活动子状态为最终状态，或并行状态的所有区域都处于最终状态（最终状态本身作为区域时处于活动状态即可）
+    private _isInFinal(state: State): boolean {
+        if (state instanceof FinalState) {
+            return this._configuration.has(state);
+        }
+        const children = substates(state);
+        if (state.childMode === 'parallel') {
+            return children.every(child => this._isInFinal(child));
+        }
+        return children.some(child => child instanceof FinalState && this._configuration.has(child));
+    }
+
+    // 按文档顺序（先序遍历）排列的所有状态
+    private _documentOrder(): State[] {
+        const result: State[] = [];
+        const visit = (state: State) => {
+            result.push(state);
+            state.children.forEach(visit);
+        };
+        this.children.forEach(visit);
+        return result;
+    }
+}
\ No newline at end of file
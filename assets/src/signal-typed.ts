@@ -0,0 +1,44 @@
+/* 按信号目录约束的字符串信号接口：qt-signal2 和 qt-signal3 的静态方法共用的类型视图 */
+
+/**
+ * 信号目录：信号名 -> 槽函数签名，例如
+ * interface AppSignals { userLoggedIn(username: string, userId: number): void; }
+ */
+export type SignalCatalog<M> = { [K in keyof M]: (...args: any[]) => void };
+
+/**
+ * 目录中参数可以直接由信号 S 转发过去的信号名（S 的参数可以赋值给目标信号的参数）
+ */
+export type ForwardTargets<M extends SignalCatalog<M>, S extends keyof M> =
+    { [K in keyof M & string]: Parameters<M[S]> extends Parameters<M[K]> ? K : never }[keyof M & string];
+
+/**
+ * 连接、断开和转发的类型视图，C 和 O 为信号实现的连接对象和连接选项类型
+ * 各信号实现在此基础上声明自己的 emit，通过 Signal.typed<M>() 获取（只是静态方法的类型视图，共享同一个注册表）
+ * @example
+ * interface AppSignals { userLoggedIn(username: string, userId: number): void; }
+ * const AppSignal = Signal.typed<AppSignals>();
+ * AppSignal.connect('userLoggedIn', (username, userId) => { });
+ * AppSignal.emit('userLoggedIn', 'john', 1);
+ */
+export interface TypedConnections<M extends SignalCatalog<M>, C, O> {
+    connect<K extends keyof M & string>(signal: K, slotFunc: M[K], target?: any, options?: O): C;
+    disconnect<K extends keyof M & string>(signal: K, slotFunc: M[K], target?: any): void;
+    /** 不转换参数时，源信号的参数必须可以赋值给目标信号的参数 */
+    forwardTo<S extends keyof M & string, D extends ForwardTargets<M, S>>(sourceSignal: S, targetSignal: D, options?: O): C;
+    forwardTo<S extends keyof M & string, D extends keyof M & string>(
+        sourceSignal: S,
+        targetSignal: D,
+        options: O | undefined,
+        transform: (args: Parameters<M[S]>) => Parameters<M[D]>
+    ): C;
+}
+
+/**
+ * 把信号实现（静态方法所在的类）作为按目录约束的类型视图返回，运行时是同一个对象
+ * 静态方法的泛型签名比类型视图宽松，无法由编译器直接推断两者兼容
+ * @param signalClass 信号实现
+ */
+export function typedView<V>(signalClass: object): V {
+    return signalClass as unknown as V;
+}
\ No newline at end of file
@@ -1,9 +1,26 @@
+import { autoDisconnect, isDestroyedTarget } from '../signal-lifecycle';
+import { ConnectionType, EventQueue, connectionTypeOf, enterEmit, isEmitting, leaveEmit, postTask, resolveConnectionType } from '../signal-event-queue';
+import { getScheduler, SignalScheduler } from '../signal-scheduler';
+import { reportSlotError, SignalError, SlotErrorInfo } from '../signal-errors';
+import { Operator, OperatorFactory, Operators } from '../signal-operators';
+import { Combiner as SharedCombiner, Combiners } from '../signal-combiners';
+import { SignalCatalog as Catalog, TypedConnections, typedView } from '../signal-typed';
+
+export { ConnectionType, Combiners };
+
+/**
+ * 组合器，见 signal-combiners
+ */
+export type Combiner<R, U> = SharedCombiner<R, U>;
+
 export class Connection {
     private _disconnect?: () => void;
+    private _limiter?: RateLimiter;
     readonly id: number;
-    constructor(id: number, disconnect: () => void) {
+    constructor(id: number, disconnect: () => void, limiter?: RateLimiter) {
         this.id = id;
         this._disconnect = disconnect;
+        this._limiter = limiter;
     }
     disconnect() {
         if (this._disconnect) {
@@ -12,6 +29,156 @@ export class Connection {
         }
     }
     get connected() { return !!this._disconnect; }
+
+    /**
+     * 立即执行节流/防抖连接中等待的调用
+     */
+    flush() {
+        if (this._limiter) {
+            this._limiter.flush();
+        }
+    }
+
+    /**
+     * 取消节流/防抖连接中等待的调用
+     */
+    cancel() {
+        if (this._limiter) {
+            this._limiter.cancel();
+        }
+    }
+
+    /**
+     * 节流/防抖连接是否有等待执行的调用
+     */
+    get pending() { return !!this._limiter && this._limiter.pending; }
+}
+
+/**
+ * 节流/防抖限流器（与 lodash 的 debounce 算法一致，节流是 maxWait 等于 wait 的防抖）
+ * - leading: 在等待开始时立即调用
+ * - trailing: 在等待结束时用最后一次的参数调用
+ * - maxWait: 连续调用时最长等待时间，超过后强制调用一次
+ */
+class RateLimiter {
+    private _invoke: (args: any[]) => any;
+    private _wait: number;
+    private _leading: boolean;
+    private _trailing: boolean;
+    private _maxWait?: number;
+
+    private _timerId?: any;
+    private _timerScheduler?: SignalScheduler; // 设置当前定时器的调度器
+    private _lastArgs?: any[];
+    private _lastCallTime?: number;
+    private _lastInvokeTime = 0;
+
+    constructor(invoke: (args: any[]) => any, wait: number, leading: boolean, trailing: boolean, maxWait?: number) {
+        this._invoke = invoke;
+        this._wait = wait;
+        this._leading = leading;
+        this._trailing = trailing;
+        this._maxWait = maxWait !== undefined ? Math.max(maxWait, wait) : undefined;
+    }
+
+    /**
+     * 发射时调用，返回同步调用的结果，没有同步调用时返回 NO_RESULT
+     */
+    call(args: any[]): any {
+        const time = getScheduler().now();
+        const isInvoking = this._shouldInvoke(time);
+        this._lastArgs = args;
+        this._lastCallTime = time;
+
+        if (isInvoking) {
+            if (this._timerId === undefined) {
+                return this._leadingEdge(time);
+            }
+            if (this._maxWait !== undefined) {
+                // 连续调用超过 maxWait，重新计时并立即调用
+                this._stopTimer();
+                this._startTimer(this._wait);
+                return this._invokeWith(time);
+            }
+        }
+        if (this._timerId === undefined) {
+            this._startTimer(this._wait);
+        }
+        return NO_RESULT;
+    }
+
+    flush() {
+        if (this._timerId !== undefined) {
+            this._stopTimer();
+            this._trailingEdge(getScheduler().now());
+        }
+    }
+
+    cancel() {
+        this._stopTimer();
+        this._lastInvokeTime = 0;
+        this._lastArgs = this._lastCallTime = undefined;
+    }
+
+    get pending() { return this._timerId !== undefined; }
+
+    private _invokeWith(time: number): any {
+        const args = this._lastArgs;
+        this._lastArgs = undefined;
+        this._lastInvokeTime = time;
+        return this._invoke(args);
+    }
+
+    private _startTimer(delay: number) {
+        this._timerScheduler = getScheduler();
+        this._timerId = this._timerScheduler.setTimeout(() => this._timerExpired(), delay);
+    }
+
+    private _stopTimer() {
+        if (this._timerId !== undefined) {
+            this._timerScheduler.clearTimeout(this._timerId);
+            this._timerId = undefined;
+        }
+    }
+
+    private _leadingEdge(time: number): any {
+        this._lastInvokeTime = time;
+        this._startTimer(this._wait);
+        return this._leading ? this._invokeWith(time) : NO_RESULT;
+    }
+
+    private _shouldInvoke(time: number): boolean {
+        if (this._lastCallTime === undefined) return true;
+        const sinceLastCall = time - this._lastCallTime;
+        const sinceLastInvoke = time - this._lastInvokeTime;
+        return sinceLastCall >= this._wait || sinceLastCall < 0 ||
+            (this._maxWait !== undefined && sinceLastInvoke >= this._maxWait);
+    }
+
+    private _remainingWait(time: number): number {
+        const timeWaiting = this._wait - (time - this._lastCallTime);
+        return this._maxWait !== undefined
+            ? Math.min(timeWaiting, this._maxWait - (time - this._lastInvokeTime))
+            : timeWaiting;
+    }
+
+    private _timerExpired() {
+        const time = getScheduler().now();
+        if (this._shouldInvoke(time)) {
+            this._trailingEdge(time);
+            return;
+        }
+        this._startTimer(this._remainingWait(time));
+    }
+
+    private _trailingEdge(time: number) {
+        this._timerId = undefined;
+        // 只有在等待期间有过调用时才执行结尾调用
+        if (this._trailing && this._lastArgs) {
+            this._invokeWith(time);
+        }
+        this._lastArgs = undefined;
+    }
 }
 
 // 定义槽函数类型
@@ -28,30 +195,297 @@ interface SignalInfo {
 // 定义槽函数项接口
 interface SlotInfo<T extends (...args: any[]) => void> {
     id: number;
+    signalName: string;    // 所属信号名（实例信号为带实例编号的键）
     callback: SlotFunc<T>;
+    slotFunc?: SlotFunc<T>; // 未绑定目标的原始槽函数（用于识别重复连接）
+    connection?: Connection;
+    release?: () => void;  // 取消目标销毁监听
     target: any;
     once: boolean;
-    queued: boolean;
+    type: ConnectionType;  // 连接类型
+    priority: number;      // 优先级，数值越大越先执行
     group?: string;        // 分组名称
 
     throttle?: number;   // 节流时间（毫秒）
     debounce?: number;   // 防抖时间（毫秒）
-    lastCallTime?: number; // 上次调用时间（用于节流）
-    timeoutId?: number;    // 超时ID（用于防抖）
+    limiter?: RateLimiter; // 节流/防抖限流器
+    withName?: boolean;    // onAny 连接：调用时把信号名作为第一个参数
+}
+
+/**
+ * 发射上下文，槽函数可以通过它接受本次发射，停止向后续槽传递（类似 QEvent::accept）
+ * 防抖槽在发射结束后才执行，无法影响本次传递
+ */
+export class EmissionContext {
+    private _accepted = false;
+    readonly signalName: string;
+    readonly forwarded: boolean;   // 是否由 forwardTo 转发触发
+    constructor(signalName: string, forwarded: boolean = false) {
+        this.signalName = signalName;
+        this.forwarded = forwarded;
+    }
+    accept() { this._accepted = true; }
+    ignore() { this._accepted = false; }
+    get accepted() { return this._accepted; }
+}
+
+/**
+ * 信号被阻塞期间的发射处理方式
+ * - drop: 直接丢弃
+ * - queue: 排队，解除阻塞时按顺序重放
+ */
+export type BlockMode = 'drop' | 'queue';
+
+// 阻塞状态（按信号名或按发射者实例）
+interface BlockState {
+    mode: BlockMode;
+    pending: { signal: Function | string, args: any[] }[];
+}
+
+/**
+ * 信号在自己的槽函数中被再次发射（重入）时的处理方式
+ * - allow: 直接嵌套执行，嵌套层数达到上限时抛出 SignalReentrancyError
+ * - queue: 排队，最外层发射结束后按顺序执行；排队的发射再次重入时继续排队，轮数同样受最大嵌套层数限制
+ *   最外层发射或排队的发射抛出异常时，尚未执行的排队发射会被丢弃
+ * - drop: 直接丢弃
+ * - throw: 抛出 SignalReentrancyError
+ */
+export type ReentrancyPolicy = 'allow' | 'queue' | 'drop' | 'throw';
+
+// 按信号名设置的重入策略
+interface ReentrancyState {
+    policy: ReentrancyPolicy;
+    maxDepth?: number;
+}
+
+/**
+ * 信号重入被拒绝、嵌套过深或检测到转发循环时抛出的错误
+ * signalNames 为构成循环的信号名，首尾是同一个信号，例如 ['a', 'b', 'a']
+ */
+export class SignalReentrancyError extends SignalError {
+    readonly signalNames: string[];
+    constructor(message: string, signalNames: string[]) {
+        super(message);
+        this.name = 'SignalReentrancyError';
+        this.signalNames = signalNames;
+    }
 }
 
 // 定义槽函数选项接口
-interface SlotOptions {
+export interface SlotOptions {
     once?: boolean;      // 自动断开（只调用一次）
-    queued?: boolean;    // 异步调用（类似 Qt::QueuedConnection）
+    queued?: boolean;    // 异步调用（类似 Qt::QueuedConnection），等同于 type: ConnectionType.Queued
+    type?: ConnectionType; // 连接类型（类似 Qt::ConnectionType），指定后忽略 queued（默认 Direct）
+    priority?: number;   // 优先级，数值越大越先执行，相同优先级按连接顺序（默认0）
+    unique?: boolean;    // 唯一连接，相同槽函数和目标已连接时返回已有连接（类似 Qt::UniqueConnection）
     group?: string;      // 分组名称，用于信号分组管理
     throttle?: number;   // 节流时间（毫秒）
     debounce?: number;   // 防抖时间（毫秒）
+    leading?: boolean;   // 节流/防抖：等待开始时立即调用（节流默认 true，防抖默认 false）
+    trailing?: boolean;  // 节流/防抖：等待结束时用最后一次的参数调用（默认 true）
+    maxWait?: number;    // 防抖：连续发射时的最长等待时间（毫秒），超过后强制调用一次
+    replay?: boolean;    // 粘性信号：连接时是否重放保存的发射（默认 true）
+}
+
+/**
+ * 信号目录：信号名 -> 槽函数签名，见 signal-typed
+ */
+export type SignalCatalog<M> = Catalog<M>;
+
+/**
+ * 按信号目录约束的字符串信号接口，信号名和参数在编译期检查，未声明的信号名会报错
+ */
+export interface TypedSignals<M extends SignalCatalog<M>> extends TypedConnections<M, Connection, SlotOptions> {
+    emit<K extends keyof M & string>(signal: K, ...args: Parameters<M[K]>): boolean;
+    emitWith<K extends keyof M & string, U>(signal: K, combiner: Combiner<ReturnType<M[K]>, U>, ...args: Parameters<M[K]>): U;
 }
 
 // 槽ID计数器
 let _nextId: number = 1;
 
+// 标记槽函数没有产生返回值（被节流、防抖或抛出异常），不参与组合
+const NO_RESULT: any = {};
+
+// 标记槽函数异常按 stop 方式处理，停止本次发射
+const STOP_EMISSION: any = {};
+
+/**
+ * 一组信号的值类型（每个信号取第一个参数，按名称传入的信号为 any），用于 zip/combineLatest
+ */
+export type SignalValues<S extends (Function | string)[]> = { [K in keyof S]: S[K] extends (...args: infer P) => any ? P[0] : any };
+
+// 粘性信号的状态
+interface StickyState {
+    size: number;       // 保存的发射次数
+    history: any[][];   // 最近的发射参数
+    name?: string;      // 发射时用于通配符匹配的信号名（实例信号为全局名）
+}
+
+// 运算符创建的派生信号
+interface DerivedInfo {
+    sources: string[];          // 上游信号名
+    connections: Connection[];  // 上游连接
+    operator: Operator;
+}
+
+// 派生信号计数器
+let _nextDerivedId: number = 1;
+
+// 派生信号名的前缀：不属于任何命名空间，也不参与通配符匹配
+const DERIVED_PREFIX = '~derived:';
+
+// 信号所属实例的编号，用于区分同一类的不同实例
+let _nextOwnerId: number = 1;
+const _ownerIds = new WeakMap<object, number>();
+
+/**
+ * 槽排序规则：优先级高的在前，相同优先级按连接顺序（ID递增）
+ */
+function compareSlots(a: SlotInfo<any>, b: SlotInfo<any>): number {
+    return (b.priority - a.priority) || (a.id - b.id);
+}
+
+/**
+ * 按优先级把槽插入到有序列表中，相同优先级排在已有槽之后
+ */
+function insertByPriority(slots: SlotInfo<any>[], slot: SlotInfo<any>): void {
+    let index = slots.length;
+    while (index > 0 && slots[index - 1].priority < slot.priority) {
+        index--;
+    }
+    slots.splice(index, 0, slot);
+}
+
+function getOwnerId(owner: object): number {
+    let ownerId = _ownerIds.get(owner);
+    if (ownerId === undefined) {
+        ownerId = _nextOwnerId++;
+        _ownerIds.set(owner, ownerId);
+    }
+    return ownerId;
+}
+
+/**
+ * 信号名是否为通配符模式（按 . 分段，* 匹配一段，** 匹配任意多段）
+ */
+function isPattern(signalName: string): boolean {
+    return signalName.indexOf('*') !== -1;
+}
+
+/**
+ * 是否为运算符创建的派生信号
+ */
+function isDerived(signalName: string): boolean {
+    return signalName.indexOf(DERIVED_PREFIX) === 0;
+}
+
+/**
+ * 去掉实例信号键的实例编号，得到信号的全局名
+ */
+function baseName(signalName: string): string {
+    const index = signalName.lastIndexOf('#');
+    return index === -1 ? signalName : signalName.slice(0, index);
+}
+
+// 模式树节点，子节点按段名索引（* 和 ** 也是普通的键）
+interface PatternNode {
+    children: Map<string, PatternNode>;
+    pattern?: string;   // 在该节点结束的模式
+}
+
+/**
+ * 信号名是否与通配符模式匹配（只在连接时重放粘性信号用到，匹配规则与 PatternTrie 相同）
+ */
+function matchesPattern(pattern: string, signalName: string): boolean {
+    const trie = new PatternTrie();
+    trie.add(pattern);
+    return trie.match(signalName).length > 0;
+}
+
+/**
+ * 通配符模式树：匹配只沿信号名的各段向下查找，开销与已连接的模式数量无关
+ */
+class PatternTrie {
+    private _root: PatternNode = { children: new Map() };
+    private _size = 0;
+
+    get size() { return this._size; }
+
+    add(pattern: string) {
+        let node = this._root;
+        for (const segment of pattern.split('.')) {
+            let child = node.children.get(segment);
+            if (!child) {
+                child = { children: new Map() };
+                node.children.set(segment, child);
+            }
+            node = child;
+        }
+        if (node.pattern === undefined) {
+            node.pattern = pattern;
+            this._size++;
+        }
+    }
+
+    remove(pattern: string) {
+        const path: PatternNode[] = [this._root];
+        const segments = pattern.split('.');
+        for (const segment of segments) {
+            const child = path[path.length - 1].children.get(segment);
+            if (!child) return;
+            path.push(child);
+        }
+        const node = path[path.length - 1];
+        if (node.pattern === undefined) return;
+        node.pattern = undefined;
+        this._size--;
+        // 删除不再需要的空节点
+        for (let i = segments.length; i > 0; i--) {
+            const current = path[i];
+            if (current.pattern !== undefined || current.children.size > 0) break;
+            path[i - 1].children.delete(segments[i - 1]);
+        }
+    }
+
+    clear() {
+        this._root = { children: new Map() };
+        this._size = 0;
+    }
+
+    /**
+     * 查找与信号名匹配的所有模式
+     */
+    match(signalName: string): string[] {
+        const result = new Set<string>();
+        this._match(this._root, signalName.split('.'), 0, result);
+        return [...result];
+    }
+
+    private _match(node: PatternNode, segments: string[], index: number, result: Set<string>) {
+        // ** 可以匹配零段，也可以吞掉任意多段
+        const globstar = node.children.get('**');
+        if (globstar) {
+            for (let i = index; i <= segments.length; i++) {
+                this._match(globstar, segments, i, result);
+            }
+        }
+        if (index === segments.length) {
+            if (node.pattern !== undefined) {
+                result.add(node.pattern);
+            }
+            return;
+        }
+        const exact = node.children.get(segments[index]);
+        if (exact) {
+            this._match(exact, segments, index + 1, result);
+        }
+        const star = node.children.get('*');
+        if (star) {
+            this._match(star, segments, index + 1, result);
+        }
+    }
+}
+
 /**
  * 信号系统核心类 - 类似于Qt的信号槽机制
  */
@@ -61,6 +495,33 @@ export class Signal {
     // 缓存相关配置
     private static readonly CACHE_TTL = 100; // 缓存有效期（毫秒）
 
+    /**
+     * 重复连接时输出警告，见 qt-signal 的 Signal.warnDuplicateConnections
+     */
+    static warnDuplicateConnections: boolean = typeof CC_DEV !== 'undefined' && CC_DEV;
+
+    /**
+     * 任一信号的槽函数抛出异常时发射，参数为异常信息
+     * @example
+     * Signal.connect(Signal.errorOccurred, info => reportToServer(info.signalName, info.error));
+     */
+    static errorOccurred(info: SlotErrorInfo): void { }
+
+    /**
+     * 检测 forwardTo 构成的循环（如 A -> B -> A），在 allow/queue 策略下立即抛出 SignalReentrancyError（默认只在开发模式开启）
+     */
+    static detectForwardingCycles: boolean = typeof CC_DEV !== 'undefined' && CC_DEV;
+
+    /**
+     * 未单独设置重入策略的信号使用的默认策略
+     */
+    static defaultReentrancyPolicy: ReentrancyPolicy = 'allow';
+
+    /**
+     * allow 策略下同一个信号允许的最大嵌套层数（包括最外层发射）
+     */
+    static maxReentrancyDepth: number = 32;
+
     // 分组信息缓存，避免频繁计算
     private static _groupCache: { groups?: string[]; lastUpdateTime: number; } = { lastUpdateTime: 0 };
 
@@ -70,32 +531,320 @@ export class Signal {
     // 全局分组映射（分组名 -> 信号槽关联集合）groupName -> { signalName: string, slotId: number }
     private static _globals: Map<string, GroupInfo> = new Map();
 
+    // 分组默认优先级（分组名 -> 优先级）
+    private static _groupPriorities: Map<string, number> = new Map();
+
+    // 正在进行的发射上下文栈（槽函数中再次发射时会嵌套）
+    private static _emissions: EmissionContext[] = [];
+
+    // 信号的重入策略（信号名 -> 策略）
+    private static _reentrancy: Map<string, ReentrancyState> = new Map();
+
+    // 按 queue 策略排队的重入发射（信号名 -> 待执行的发射）
+    private static _reentrantPending: Map<string, { signal: Function | string, args: any[] }[]> = new Map();
+
+    // 正在执行排队重入发射的信号，执行期间新的重入发射由同一个循环处理
+    private static _drainingReentrant: Set<string> = new Set();
+
+    // 下一次发射是否由 forwardTo 触发
+    private static _forwarding = false;
+
+    // 已连接的通配符模式
+    private static _patterns = new PatternTrie();
+
+    // 粘性信号（信号名 -> 保存的发射次数和最近的发射参数）
+    private static _sticky: Map<string, StickyState> = new Map();
+
+    // 运算符创建的派生信号（信号名 -> 上游连接）
+    private static _derived: Map<string, DerivedInfo> = new Map();
+
+    // 被阻塞的信号（信号名 -> 阻塞状态）
+    private static _blockedSignals: Map<string, BlockState> = new Map();
+
+    // 被阻塞的发射者实例（实例 -> 阻塞状态）
+    private static _blockedOwners: WeakMap<object, BlockState> = new WeakMap();
+
+    // 发射者实例 -> 该实例拥有的信号键集合（用于 disconnectAll）
+    private static _owners: WeakMap<object, Set<string>> = new WeakMap();
+
+    // 类原型 -> @signal 声明的属性名（用于 signalMembers，不随 reset 清除）
+    private static _members: WeakMap<object, string[]> = new WeakMap();
+
+    /**
+     * 触发信号，通配符模式（如 'user.*'）只能用于连接，发射时会抛出异常
+     * @param signal 信号名或信号函数引用
+     * @param args 传递给槽函数的参数
+     * @returns 是否有槽函数接受（accept）了本次发射
+     */
+    static emit<T extends (...args: any[]) => void>(signal: T | string, ...args: Parameters<T>): boolean {
+        return this._invoke(signal, args);
+    }
+
     /**
-     * 触发信号
+     * 触发信号并用组合器合并槽函数的返回值
      * @param signal 信号名或信号函数引用
+     * @param combiner 组合器，见 Combiners
      * @param args 传递给槽函数的参数
+     * @returns 组合器的结果
      */
-    static emit<T extends (...args: any[]) => void>(signal: T | string, ...args: Parameters<T>): void {
+    static emitWith<T extends (...args: any[]) => void, U>(signal: T | string, combiner: Combiner<ReturnType<T>, U>, ...args: Parameters<T>): U {
+        const results: ReturnType<T>[] = [];
+        this._invoke(signal, args, results);
+        return combiner(results);
+    }
+
+    /**
+     * 当前正在进行的发射上下文（只在槽函数同步执行期间有效）
+     */
+    static get currentEmission(): EmissionContext | undefined {
+        return this._emissions[this._emissions.length - 1];
+    }
+
+    /**
+     * 在槽函数中调用，接受当前发射并停止向后续槽传递
+     */
+    static accept(): void {
+        const context = this.currentEmission;
+        if (context) {
+            context.accept();
+        }
+    }
+
+    /**
+     * 依次调用信号的槽函数，产生了返回值的槽的结果写入 results
+     * @param signal 信号名或信号函数引用
+     * @param args 传递给槽函数的参数
+     * @param results 收集返回值的数组
+     * @returns 是否有槽函数接受了本次发射
+     */
+    private static _invoke<T extends (...args: any[]) => void>(signal: T | string, args: Parameters<T>, results?: ReturnType<T>[]): boolean {
+        const forwarded = this._forwarding;
+        this._forwarding = false;
+
+        // 实例信号为 [实例键, 全局名]，最后一个用于通配符匹配
+        const emitNames = this.getEmitNames(signal);
+        const matchName = emitNames[emitNames.length - 1];
+        if (isPattern(matchName)) {
+            throw new Error(`Cannot emit wildcard pattern "${matchName}", patterns can only be connected`);
+        }
+
+        // 被阻塞时丢弃或排队
+        const blockState = this._getBlockState(signal);
+        if (blockState) {
+            if (blockState.mode === 'queue') {
+                blockState.pending.push({ signal: signal, args: args });
+            }
+            return false;
+        }
+
+        // 实例信号同时投递给实例作用域的槽和按全局信号名连接的槽
+        const slotsToExecute: SlotInfo<T>[] = [];
+        for (const signalName of emitNames) {
+            const signalData = this._signals.get(signalName);
+            if (signalData) {
+                // 创建需要执行的槽函数列表副本，避免在执行过程中修改原数组
+                slotsToExecute.push(...signalData.slots);
+            }
+        }
+        // 通配符连接（如 'user.*'、'**'）按全局信号名在模式树中匹配，派生信号不参与
+        if (this._patterns.size > 0 && !isDerived(matchName)) {
+            for (const pattern of this._patterns.match(matchName)) {
+                const signalData = this._signals.get(pattern);
+                if (signalData) {
+                    slotsToExecute.push(...signalData.slots);
+                }
+            }
+        }
+
+        if (slotsToExecute.length === 0) {
+            // 没有槽时粘性信号同样需要保存，供之后连接的槽重放
+            this._record(signal, args);
+            return false;
+        }
+
+        // 槽函数中再次发射正在发射的信号时按重入策略处理
         const signalName = this.getName(signal);
-        const signalData = this._getSignalData(signalName);
+        const depth = this._emissionDepth(signalName);
+        if (depth > 0 && !this._checkReentry(signal, signalName, depth, forwarded, args)) {
+            return false;
+        }
+        this._record(signal, args);
 
-        if (!signalData || signalData.slots.length === 0) return;
+        // 每个槽列表已按优先级排好序，合并实例槽和全局槽后需要重新排序
+        if (slotsToExecute.length > 1) {
+            slotsToExecute.sort(compareSlots);
+        }
 
-        // 创建需要执行的槽函数列表副本，避免在执行过程中修改原数组
-        const slotsToExecute = [...signalData.slots];
+        const context = new EmissionContext(signalName, forwarded);
+        this._emissions.push(context);
+        enterEmit();
+        let reentrant: { signal: Function | string, args: any[] }[] | undefined;
+        try {
+            for (const slot of slotsToExecute) {
+                // 目标节点或组件已销毁，自动断开
+                if (isDestroyedTarget(slot.target)) {
+                    this.disconnectById(slot.signalName, slot.id);
+                    continue;
+                }
+                const type = resolveConnectionType(slot.type);
+                // onAny 连接额外收到信号名
+                const slotArgs = (slot.withName ? [matchName, ...args] : args) as Parameters<T>;
+                let stopped = false;
+                if (type !== ConnectionType.Direct) {
+                    // 异步调用（队列连接），不参与本次返回值组合
+                    postTask(type, () => {
+                        if (isDestroyedTarget(slot.target)) return;
+                        this.executeSlot(slot, slotArgs);
+                    });
+                } else {
+                    const value = this.executeSlot(slot, slotArgs);
+                    stopped = value === STOP_EMISSION;
+                    if (results && value !== NO_RESULT && !stopped) {
+                        results.push(value);
+                    }
+                }
 
-        for (const slot of slotsToExecute) {
-            this.executeSlot(slot, args);
+                // 如果是一次性连接，执行后断开（节流/防抖的槽在真正调用时断开）
+                if (slot.once && !slot.limiter) {
+                    this.disconnectById(slot.signalName, slot.id);
+                }
 
-            // 如果是一次性连接，执行后断开
-            if (slot.once) {
-                this.disconnectById(signalName, slot.id);
+                // 已被接受或槽函数异常要求停止时不再传递给后续槽
+                if (context.accepted || stopped) break;
+            }
+        } finally {
+            leaveEmit();
+            this._emissions.pop();
+            // 抛出异常时同样取出，丢弃排队的发射，避免留给之后无关的发射
+            if (depth === 0 && !this._drainingReentrant.has(signalName)) {
+                reentrant = this._reentrantPending.get(signalName);
+                this._reentrantPending.delete(signalName);
+            }
+        }
+        // 最外层发射结束后执行排队的重入发射
+        if (reentrant) {
+            this._drainReentrant(signal, signalName, reentrant);
+        }
+        return context.accepted;
+    }
+
+    /**
+     * 按轮执行排队的重入发射，每一轮相当于多嵌套一层，超过最大嵌套层数时抛出 SignalReentrancyError
+     */
+    private static _drainReentrant<T extends (...args: any[]) => void>(signal: T | string, signalName: string, reentrant: { signal: Function | string, args: any[] }[]): void {
+        const state = this._getReentrancyState(signal);
+        const maxDepth = state.maxDepth || this.maxReentrancyDepth;
+        this._drainingReentrant.add(signalName);
+        try {
+            // 最外层发射是第 1 层，第一轮排队的发射是第 2 层
+            let pending: { signal: Function | string, args: any[] }[] | undefined = reentrant;
+            for (let depth = 2; pending; depth++) {
+                if (depth > maxDepth) {
+                    throw new SignalReentrancyError(`Signal "${signalName}" exceeded the maximum reentrancy depth ${maxDepth} while draining queued emissions`, [signalName, signalName]);
+                }
+                for (const item of pending) {
+                    this._invoke(item.signal as T, item.args as Parameters<T>);
+                }
+                pending = this._reentrantPending.get(signalName);
+                this._reentrantPending.delete(signalName);
             }
+        } finally {
+            this._drainingReentrant.delete(signalName);
+            this._reentrantPending.delete(signalName);
         }
     }
 
+    /**
+     * 信号当前的嵌套发射层数
+     */
+    private static _emissionDepth(signalName: string): number {
+        let depth = 0;
+        for (const context of this._emissions) {
+            if (context.signalName === signalName) depth++;
+        }
+        return depth;
+    }
+
+    /**
+     * 按重入策略处理一次重入发射
+     * @returns 是否继续执行本次发射
+     */
+    private static _checkReentry(signal: Function | string, signalName: string, depth: number, forwarded: boolean, args: any[]): boolean {
+        const state = this._getReentrancyState(signal);
+        // 从上一次发射到本次发射之间的信号构成循环
+        let start = this._emissions.length - 1;
+        while (this._emissions[start].signalName !== signalName) start--;
+        const cycle = this._emissions.slice(start).map(context => context.signalName).concat(signalName);
+
+        // 全部由转发构成的循环在 allow/queue 策略下永远不会结束
+        if (this.detectForwardingCycles && forwarded && (state.policy === 'allow' || state.policy === 'queue')
+            && this._emissions.slice(start + 1).every(context => context.forwarded)) {
+            throw new SignalReentrancyError(`Forwarding cycle detected: ${cycle.join(' -> ')}`, cycle);
+        }
+
+        switch (state.policy) {
+            case 'drop':
+                return false;
+            case 'queue': {
+                let pending = this._reentrantPending.get(signalName);
+                if (!pending) {
+                    pending = [];
+                    this._reentrantPending.set(signalName, pending);
+                }
+                pending.push({ signal: signal, args: args });
+                return false;
+            }
+            case 'throw':
+                throw new SignalReentrancyError(`Signal "${signalName}" emitted recursively: ${cycle.join(' -> ')}`, cycle);
+            default: {
+                const maxDepth = state.maxDepth || this.maxReentrancyDepth;
+                if (depth >= maxDepth) {
+                    throw new SignalReentrancyError(`Signal "${signalName}" exceeded the maximum reentrancy depth ${maxDepth}: ${cycle.join(' -> ')}`, cycle);
+                }
+                return true;
+            }
+        }
+    }
+
+    /**
+     * 设置信号的重入策略，实例信号未单独设置时使用按全局信号名设置的策略
+     * @param signal 信号名或信号函数引用
+     * @param policy 重入策略
+     * @param maxDepth allow 策略下允许的最大嵌套层数（包括最外层发射），不传时使用 maxReentrancyDepth
+     */
+    static setReentrancyPolicy<T extends (...args: any[]) => void>(signal: T | string, policy: ReentrancyPolicy, maxDepth?: number): void {
+        this._reentrancy.set(this.getName(signal), { policy: policy, maxDepth: maxDepth });
+    }
+
+    /**
+     * 获取信号的重入策略
+     * @param signal 信号名或信号函数引用
+     */
+    static getReentrancyPolicy<T extends (...args: any[]) => void>(signal: T | string): ReentrancyPolicy {
+        return this._getReentrancyState(signal).policy;
+    }
+
+    private static _getReentrancyState(signal: Function | string): ReentrancyState {
+        for (const name of this.getEmitNames(signal as any)) {
+            const state = this._reentrancy.get(name);
+            if (state) return state;
+        }
+        return { policy: this.defaultReentrancyPolicy };
+    }
+
+    /**
+     * 获取按信号目录约束的字符串信号接口，见 signal-typed
+     */
+    static typed<M extends SignalCatalog<M>>(): TypedSignals<M> {
+        return typedView<TypedSignals<M>>(this);
+    }
+
     /**
      * 连接信号和槽函数
+     * 信号名可以是按 . 分段的通配符模式：* 匹配一段，** 匹配任意多段（包括零段），
+     * 例如 'user.*' 匹配 'user.login' 但不匹配 'user.profile.updated'，'user.**' 两者都匹配
+     * 实例信号按全局名匹配，槽函数中可以通过 Signal.currentEmission 获取实际发射的信号
+     * 通配符连接同样会收到匹配的粘性信号保存的发射（见 setSticky）
      * @param signal 信号名或信号函数引用
      * @param slotFunc 槽函数引用
      * @param target 槽函数目标对象
@@ -104,6 +853,18 @@ export class Signal {
     static connect<T extends (...args: any[]) => void>(signal: T | string, slotFunc: SlotFunc<T>, target?: any, options?: SlotOptions): Connection {
         // 确定信号名称
         const signalName = this.getName(signal);
+
+        // 检查重复连接
+        const existing = this._findSlot(signalName, slotFunc, target || null);
+        if (existing) {
+            if (options?.unique) {
+                return existing.connection;
+            }
+            if (this.warnDuplicateConnections) {
+                console.warn(`Duplicate connection to signal "${signalName}", use { unique: true } to avoid calling the slot twice`);
+            }
+        }
+
         // 绑定目标对象到回调函数
         const boundCallback = target ? slotFunc.bind(target) : slotFunc;
 
@@ -116,12 +877,146 @@ export class Signal {
         const opts = {
             once: options?.once,
             queued: options?.queued,
+            type: options?.type,
+            priority: options?.priority,
             throttle: options?.throttle,
             debounce: options?.debounce,
+            leading: options?.leading,
+            trailing: options?.trailing,
+            maxWait: options?.maxWait,
             group: options?.group || defaultGroup,  // 优先使用选项中的分组，否则使用默认分组
         };
         // 使用指定的信号名连接槽函数
-        return this.addSlot(signalName, boundCallback, target || null, opts);
+        const connection = this.addSlot(signalName, boundCallback, target || null, opts, slotFunc);
+        // 粘性信号向新连接的槽重放保存的发射
+        if (options?.replay !== false) {
+            this._replay(signalName, connection.id);
+        }
+        return connection;
+    }
+
+    /**
+     * 监听所有信号的发射（调试、日志等），槽函数的第一个参数为信号名（实例信号为全局名）
+     * 等同于连接 '**'，可以用返回的连接断开
+     * @example
+     * Signal.onAny((signalName, ...args) => console.log(signalName, args));
+     * @param slotFunc 槽函数
+     * @param target 槽函数目标对象
+     * @param options 连接选项
+     */
+    static onAny(slotFunc: (signalName: string, ...args: any[]) => void, target?: any, options?: SlotOptions): Connection {
+        // 标记之后再重放，重放的调用同样带上信号名
+        const connection = this.connect('**', slotFunc, target, { ...options, replay: false });
+        const slot = this._slotById('**', connection.id);
+        if (slot) {
+            slot.withName = true;
+            if (options?.replay !== false) {
+                this._replay('**', connection.id);
+            }
+        }
+        return connection;
+    }
+
+    /**
+     * 设置粘性信号：保存最近 count 次发射，之后连接的槽立即按顺序收到这些发射
+     * 实例信号按实例保存，字符串信号（包括实例信号的全局名）单独设置
+     * 0 或 false 时不再保存并清除已保存的发射
+     * @example
+     * Signal.setSticky('user.loggedIn', 1);
+     * Signal.emit('user.loggedIn', user);
+     * // 登录之后才实例化的预制体仍然能收到当前用户
+     * Signal.connect('user.loggedIn', user => this.showUser(user));
+     * @param signal 信号名或信号函数引用
+     * @param count 保存最近的发射次数，true 等同于 1
+     */
+    static setSticky<T extends (...args: any[]) => void>(signal: T | string, count: number | boolean): void {
+        const signalName = this.getName(signal);
+        const size = count === true ? 1 : Math.max(Number(count) || 0, 0);
+        if (size === 0) {
+            this._sticky.delete(signalName);
+            return;
+        }
+        const state = this._sticky.get(signalName);
+        if (!state) {
+            this._sticky.set(signalName, { size: size, history: [] });
+            return;
+        }
+        state.size = size;
+        if (state.history.length > size) {
+            state.history.splice(0, state.history.length - size);
+        }
+    }
+
+    /**
+     * 获取信号保存的发射次数（0 表示不是粘性信号）
+     * @param signal 信号名或信号函数引用
+     */
+    static getSticky<T extends (...args: any[]) => void>(signal: T | string): number {
+        const state = this._sticky.get(this.getName(signal));
+        return state ? state.size : 0;
+    }
+
+    /**
+     * 清除粘性信号保存的发射，之后连接的槽不会再收到之前的发射
+     * @param signal 信号名或信号函数引用
+     */
+    static clearSticky<T extends (...args: any[]) => void>(signal: T | string): void {
+        const state = this._sticky.get(this.getName(signal));
+        if (state) {
+            state.history.length = 0;
+        }
+    }
+
+    // 保存粘性信号的发射参数（实例信号同时保存到设置了粘性的全局名）
+    private static _record(signal: Function | string, args: any[]) {
+        if (this._sticky.size === 0) return;
+        const names = this.getEmitNames(signal as any);
+        for (const name of names) {
+            const state = this._sticky.get(name);
+            if (!state) continue;
+            state.name = names[names.length - 1];
+            state.history.push(args);
+            if (state.history.length > state.size) {
+                state.history.shift();
+            }
+        }
+    }
+
+    private static _slotById(signalName: string, slotId: number): SlotInfo<any> | undefined {
+        const signalData = this._signals.get(signalName);
+        return signalData ? signalData.slots.find(item => item.id === slotId) : undefined;
+    }
+
+    // 按发射顺序向新连接的槽重放保存的发射（遵循连接类型），一次性连接只重放最近的一次
+    // 通配符连接重放所有匹配的粘性信号，同一信号按发射顺序，不同信号之间按设置粘性的顺序
+    private static _replay(signalName: string, slotId: number) {
+        if (this._sticky.size === 0) return;
+        const slot = this._slotById(signalName, slotId);
+        if (!slot) return;
+        const states = isPattern(signalName)
+            ? [...this._sticky.values()].filter(state => state.name !== undefined && matchesPattern(signalName, state.name))
+            : [this._sticky.get(signalName)].filter(state => !!state);
+        const signalData = this._signals.get(signalName);
+        for (const state of states) {
+            const history = slot.once ? state.history.slice(-1) : state.history.slice();
+            for (const args of history) {
+                // 重放过程中槽可能已被断开
+                if (signalData.slots.indexOf(slot) === -1) return;
+                if (slot.once && !slot.limiter) {
+                    this.disconnectById(signalName, slot.id);
+                }
+                const slotArgs = slot.withName ? [state.name, ...args] : args;
+                const type = resolveConnectionType(slot.type);
+                if (type !== ConnectionType.Direct) {
+                    postTask(type, () => {
+                        if (isDestroyedTarget(slot.target)) return;
+                        this.executeSlot(slot, slotArgs);
+                    });
+                } else {
+                    this.executeSlot(slot, slotArgs);
+                }
+            }
+        }
     }
 
     /**
@@ -130,9 +1025,10 @@ export class Signal {
      * @param slotFunc 槽函数引用
      * @param target 槽函数目标对象
      * @param wait 节流等待时间（毫秒）
+     * @param options 其他连接选项（如 leading/trailing）
     */
-    static connectThrottled<T extends (...args: any[]) => void>(signal: T | string, slotFunc: SlotFunc<T>, target?: any, wait: number = 100): Connection {
-        return this.connect(signal, slotFunc, target, { throttle: wait });
+    static connectThrottled<T extends (...args: any[]) => void>(signal: T | string, slotFunc: SlotFunc<T>, target?: any, wait: number = 100, options?: SlotOptions): Connection {
+        return this.connect(signal, slotFunc, target, { ...options, throttle: wait });
     }
 
     /**
@@ -141,9 +1037,10 @@ export class Signal {
      * @param slotFunc 槽函数引用
      * @param target 槽函数目标对象
      * @param wait 防抖等待时间（毫秒）
+     * @param options 其他连接选项（如 leading/trailing/maxWait）
      */
-    static connectDebounced<T extends (...args: any[]) => void>(signal: T | string, slotFunc: SlotFunc<T>, target?: any, wait: number = 100): Connection {
-        return this.connect(signal, slotFunc, target, { debounce: wait });
+    static connectDebounced<T extends (...args: any[]) => void>(signal: T | string, slotFunc: SlotFunc<T>, target?: any, wait: number = 100, options?: SlotOptions): Connection {
+        return this.connect(signal, slotFunc, target, { ...options, debounce: wait });
     }
 
     /**
@@ -155,7 +1052,7 @@ export class Signal {
     static disconnect<T extends (...args: any[]) => void>(signal: T | string, slotFunc: SlotFunc<T>, target?: any): void {
         // 确定信号名称
         const signalName = this.getName(signal);
-        const signalData = this._getSignalData(signalName);
+        const signalData = this._signals.get(signalName);
 
         if (!signalData) return;
 
@@ -168,6 +1065,9 @@ export class Signal {
                 this._removeFromGlobalGroup(signalName, slot.id, slot.group);
                 this._removeFromSignalGroup(signalName, slot.id, slot.group);
             }
+            if (isMatch) {
+                this._releaseSlot(slot);
+            }
             return !isMatch;
         });
 
@@ -175,14 +1075,14 @@ export class Signal {
         if (updatedSlots.length > 0) {
             signalData.slots = updatedSlots;
         } else {
-            this._signals.delete(signalName);
+            this._deleteSignalData(signalName);
         }
 
         this._invalidateCache();
     }
 
     static disconnectById(signalName: string, id: number): void {
-        const signalData = this._getSignalData(signalName);
+        const signalData = this._signals.get(signalName);
         if (!signalData) return;
 
         // 查找并获取需要断开的槽函数
@@ -198,16 +1098,185 @@ export class Signal {
 
         // 从信号槽列表中移除
         signalData.slots.splice(slotIndex, 1);
+        this._releaseSlot(slot);
 
         // 如果信号没有槽函数了，删除该信号数据
         if (signalData.slots.length === 0) {
-            this._signals.delete(signalName);
+            this._deleteSignalData(signalName);
         }
 
         // 清除缓存
         this._invalidateCache();
     }
 
+    /**
+     * 断开命名空间下所有信号的全部连接，包括该命名空间下的实例信号和通配符连接
+     * @example
+     * Signal.disconnectNamespace('user'); // 断开 'user'、'user.login'、'user.*' 等
+     * @param namespace 按 . 分段的命名空间
+     */
+    static disconnectNamespace(namespace: string): void {
+        const prefix = `${namespace}.`;
+        // 派生信号连接在上游的槽属于运算符链，不随命名空间断开
+        const internal = new Set<number>();
+        this._derived.forEach(info => info.connections.forEach(connection => internal.add(connection.id)));
+        for (const signalName of [...this._signals.keys()]) {
+            if (isDerived(signalName)) continue;
+            const name = baseName(signalName);
+            if (name !== namespace && name.indexOf(prefix) !== 0) continue;
+            const signalData = this._signals.get(signalName);
+            if (!signalData) continue;
+            // 复制一份，disconnectById 会修改原数组
+            for (const slot of [...signalData.slots]) {
+                if (!internal.has(slot.id)) this.disconnectById(signalName, slot.id);
+            }
+        }
+    }
+
+    /**
+     * 断开某个发射者实例上所有信号的全部连接（通常在实例销毁时调用）
+     * @param owner 通过 @signal 声明信号的实例，或运算符返回的派生信号
+     */
+    static disconnectAll(owner: object): void {
+        const signalNames = owner ? this._owners.get(owner) : undefined;
+        if (!signalNames) return;
+
+        for (const signalName of signalNames) {
+            const signalData = this._signals.get(signalName);
+            if (!signalData) continue;
+            // 复制一份，disconnectById 会修改原数组
+            for (const slot of [...signalData.slots]) {
+                this.disconnectById(signalName, slot.id);
+            }
+        }
+        // 派生信号同时断开上游连接，并清除实例保存的粘性发射
+        for (const signalName of signalNames) {
+            this._detachDerived(signalName);
+            this._sticky.delete(signalName);
+        }
+    }
+
+    /**
+     * 阻塞或解除阻塞信号（类似 QObject::blockSignals）
+     * 传入信号名或信号函数引用时只阻塞该信号，传入发射者实例时阻塞该实例的所有信号
+     * 阻塞期间的发射按 mode 丢弃或排队，解除阻塞时按顺序重放排队的发射
+     * @param target 信号名、信号函数引用或发射者实例
+     * @param blocked 是否阻塞
+     * @param mode 阻塞期间的发射处理方式（默认丢弃）
+     * @returns 调用前的阻塞状态
+     */
+    static blockSignals(target: object | string, blocked: boolean, mode: BlockMode = 'drop'): boolean {
+        let previous: BlockState | undefined;
+        if (typeof target === 'object') {
+            previous = this._blockedOwners.get(target);
+            if (blocked) {
+                this._blockedOwners.set(target, { mode: mode, pending: previous ? previous.pending : [] });
+            } else {
+                this._blockedOwners.delete(target);
+            }
+        } else {
+            const signalName = this.getName(target as any);
+            previous = this._blockedSignals.get(signalName);
+            if (blocked) {
+                this._blockedSignals.set(signalName, { mode: mode, pending: previous ? previous.pending : [] });
+            } else {
+                this._blockedSignals.delete(signalName);
+            }
+        }
+
+        // 解除阻塞时重放排队的发射
+        if (!blocked && previous) {
+            for (const { signal, args } of previous.pending) {
+                this.emit(signal as any, ...args);
+            }
+        }
+        return !!previous;
+    }
+
+    /**
+     * 信号或发射者实例自身的阻塞方式（不考虑所属实例的阻塞），未阻塞时为 undefined
+     * @param target 信号名、信号函数引用或发射者实例
+     */
+    static getBlockMode(target: object | string): BlockMode | undefined {
+        const state = typeof target === 'object'
+            ? this._blockedOwners.get(target)
+            : this._blockedSignals.get(this.getName(target as any));
+        return state ? state.mode : undefined;
+    }
+
+    /**
+     * 信号或发射者实例是否处于阻塞状态
+     * @param target 信号名、信号函数引用或发射者实例
+     */
+    static signalsBlocked(target: object | string): boolean {
+        if (typeof target === 'object') {
+            return this._blockedOwners.has(target);
+        }
+        return !!this._getBlockState(target as any);
+    }
+
+    // 辅助方法：获取信号当前生效的阻塞状态（信号自身或其发射者实例被阻塞）
+    private static _getBlockState<T extends (...args: any[]) => void>(signal: T | string): BlockState | undefined {
+        if (this._blockedSignals.size > 0) {
+            for (const signalName of this.getEmitNames(signal)) {
+                const state = this._blockedSignals.get(signalName);
+                if (state) return state;
+            }
+        }
+        const owner = typeof signal === 'function' ? signal['__debugInfo']?.owner : undefined;
+        return owner ? this._blockedOwners.get(owner) : undefined;
+    }
+
+    /**
+     * 登记实例信号的所属实例
+     * @param owner 发射者实例
+     * @param signalName 实例信号的键
+     */
+    static registerOwner(owner: object, signalName: string): void {
+        let signalNames = this._owners.get(owner);
+        if (!signalNames) {
+            signalNames = new Set();
+            this._owners.set(owner, signalNames);
+        }
+        signalNames.add(signalName);
+    }
+
+    /**
+     * 登记类上通过 @signal 声明的属性
+     * @param prototype 类原型
+     * @param prop 属性名
+     */
+    static registerMember(prototype: object, prop: string): void {
+        let members = this._members.get(prototype);
+        if (!members) {
+            members = [];
+            this._members.set(prototype, members);
+        }
+        members.push(prop);
+    }
+
+    /**
+     * 获取实例上通过 @signal 声明的信号，只访问装饰器定义的属性，不会调用对象上的其他访问器
+     * @param owner 发射者实例
+     * @returns 属性名 -> 信号函数引用
+     */
+    static signalMembers(owner: object): Map<string, (...args: any[]) => void> {
+        const members = new Map<string, (...args: any[]) => void>();
+        for (let proto = Object.getPrototypeOf(owner); proto; proto = Object.getPrototypeOf(proto)) {
+            const props = this._members.get(proto);
+            if (!props) continue;
+            for (const prop of props) {
+                if (members.has(prop)) continue;
+                // 声明可能被同名的其他实现的信号字段覆盖（见 observable）
+                const value = owner[prop];
+                if (typeof value === 'function' && value['__signalName']) {
+                    members.set(prop, value);
+                }
+            }
+        }
+        return members;
+    }
+
     // 断开分组和其他方法保持逻辑不变，但使用新的数据结构
     static disconnectByGroup(groupName: string): void {
         // 参数验证
@@ -236,6 +1305,26 @@ export class Signal {
         this._invalidateCache();
     }
 
+    /**
+     * 设置分组的默认优先级，未显式指定 priority 的槽在连接时使用该值
+     * @param groupName 分组名称
+     * @param priority 优先级，数值越大越先执行
+     */
+    static setGroupPriority(groupName: string, priority: number): void {
+        if (!groupName || typeof groupName !== 'string') {
+            throw new Error('Group name must be a non-empty string');
+        }
+        this._groupPriorities.set(groupName, priority);
+    }
+
+    /**
+     * 获取分组的默认优先级
+     * @param groupName 分组名称
+     */
+    static getGroupPriority(groupName: string): number {
+        return this._groupPriorities.get(groupName) || 0;
+    }
+
     // 其他分组相关方法实现类似调整
     static getConnectionCountByGroup(groupName: string): number {
         // 参数验证
@@ -261,7 +1350,7 @@ export class Signal {
 
     static getAllGroups(): string[] {
         // 使用缓存优化频繁调用
-        const now = Date.now();
+        const now = getScheduler().now();
         if (this._groupCache.groups && (now - this._groupCache.lastUpdateTime) < this.CACHE_TTL) {
             return [...this._groupCache.groups];
         }
@@ -299,6 +1388,17 @@ export class Signal {
     }
 
     // 辅助方法：获取信号数据
+    // 删除没有槽的信号数据，通配符模式同时从模式树中移除，派生信号同时断开上游连接
+    private static _deleteSignalData(signalName: string) {
+        this._signals.delete(signalName);
+        if (isPattern(signalName)) {
+            this._patterns.remove(signalName);
+        }
+        if (this._derived.has(signalName)) {
+            this._detachDerived(signalName);
+        }
+    }
+
     private static _getSignalData(signalName: string) {
         if (!this._signals.has(signalName)) {
             this._signals.set(signalName, { slots: [], groups: new Map() });
@@ -306,6 +1406,16 @@ export class Signal {
         return this._signals.get(signalName);
     }
 
+    // 辅助方法：槽被移除后取消目标销毁监听和等待中的节流/防抖调用
+    private static _releaseSlot(slot: SlotInfo<any>) {
+        if (slot.release) {
+            slot.release();
+        }
+        if (slot.limiter) {
+            slot.limiter.cancel();
+        }
+    }
+
     // 辅助方法：获取全局分组数据
     private static _getGlobalGroupData(groupName: string) {
         if (!this._globals.has(groupName)) {
@@ -374,9 +1484,21 @@ export class Signal {
      */
     static reset(): void {
         this._signals.clear();
+        this._patterns.clear();
         this._globals.clear();
+        this._groupPriorities.clear();
+        this._blockedSignals.clear();
+        this._reentrancy.clear();
+        this._reentrantPending.clear();
+        this._drainingReentrant.clear();
+        this._sticky.clear();
+        this._derived.forEach(info => info.operator.dispose && info.operator.dispose());
+        this._derived.clear();
+        this._blockedOwners = new WeakMap();
+        this._owners = new WeakMap();
         this._invalidateCache();
         _nextId = 1;
+        _nextDerivedId = 1;
     }
 
     /**
@@ -398,9 +1520,11 @@ export class Signal {
             if (transform) {
                 // 使用转换函数处理参数
                 const transformedArgs = transform(args);
+                this._forwarding = true;
                 this.emit(targetSignal, ...transformedArgs);
             } else {
                 // 无转换函数时，直接转发参数
+                this._forwarding = true;
                 this.emit(targetSignal, ...args as any);
             }
         };
@@ -409,6 +1533,112 @@ export class Signal {
         return this.connect(sourceSignal, forwarder, undefined, options);
     }
 
+    /**
+     * 返回以 fn 的返回值作为唯一参数发射的派生信号（信号函数，可直接用于 connect/emit）
+     * 派生信号的最后一个槽断开时（或 disconnectAll(derived)）自动断开上游连接
+     * @example
+     * const nameChanged = Signal.map(this.userChanged, (user: User) => user.name);
+     * Signal.connect(nameChanged, name => label.string = name);
+     */
+    static map<T extends (...args: any[]) => void, U>(signal: T | string, fn: (...args: Parameters<T>) => U): (value: U) => void {
+        return this._pipe('map', [signal], Operators.map(fn));
+    }
+
+    /**
+     * 返回只在 predicate 返回真时发射的派生信号
+     */
+    static filter<T extends (...args: any[]) => void>(signal: T | string, predicate: (...args: Parameters<T>) => boolean): T {
+        return this._pipe('filter', [signal], Operators.filter(predicate));
+    }
+
+    /**
+     * 返回任一信号发射时都发射的派生信号
+     */
+    static merge<T extends (...args: any[]) => void>(...signals: (T | string)[]): T {
+        return this._pipe('merge', signals, Operators.merge());
+    }
+
+    /**
+     * 返回按顺序配对发射各信号值的派生信号（每个信号取第一个参数）
+     */
+    static zip<S extends (Function | string)[]>(...signals: S): (...values: SignalValues<S>) => void {
+        return this._pipe('zip', signals, Operators.zip(signals.length));
+    }
+
+    /**
+     * 返回所有信号都发射过后，任一信号发射时发射各信号最新值的派生信号（每个信号取第一个参数）
+     */
+    static combineLatest<S extends (Function | string)[]>(...signals: S): (...values: SignalValues<S>) => void {
+        return this._pipe('combineLatest', signals, Operators.combineLatest(signals.length));
+    }
+
+    /**
+     * 返回参数与上一次相同时不发射的派生信号
+     * @param equals 比较函数，默认参数逐个全等
+     */
+    static distinctUntilChanged<T extends (...args: any[]) => void>(signal: T | string, equals?: (previous: Parameters<T>, current: Parameters<T>) => boolean): T {
+        return this._pipe('distinctUntilChanged', [signal], Operators.distinctUntilChanged(equals as any));
+    }
+
+    /**
+     * 返回以累积结果作为唯一参数发射的派生信号
+     */
+    static scan<T extends (...args: any[]) => void, A>(signal: T | string, reducer: (acc: A, ...args: Parameters<T>) => A, seed: A): (acc: A) => void {
+        return this._pipe('scan', [signal], Operators.scan(reducer, seed));
+    }
+
+    /**
+     * 返回只发射前 count 次的派生信号，之后自动断开上游连接
+     */
+    static take<T extends (...args: any[]) => void>(signal: T | string, count: number): T {
+        return this._pipe('take', [signal], Operators.take(count));
+    }
+
+    /**
+     * 返回跳过前 count 次发射的派生信号
+     */
+    static skip<T extends (...args: any[]) => void>(signal: T | string, count: number): T {
+        return this._pipe('skip', [signal], Operators.skip(count));
+    }
+
+    /**
+     * 返回延迟 ms 毫秒发射的派生信号（通过调度器计时），断开时取消尚未发射的
+     */
+    static delay<T extends (...args: any[]) => void>(signal: T | string, ms: number): T {
+        return this._pipe('delay', [signal], Operators.delay(ms));
+    }
+
+    /**
+     * 创建派生信号函数并连接上游信号
+     */
+    private static _pipe(operatorName: string, sources: (Function | string)[], factory: OperatorFactory): any {
+        const sourceNames = sources.map(source => this.getName(source as any));
+        // 派生信号名不含上游信号名，上游为通配符模式时也不会被当作模式
+        const derivedName = `${DERIVED_PREFIX}${operatorName}#${_nextDerivedId++}`;
+        const anonymous = function () { };
+        anonymous['__signalName'] = derivedName;
+        const operator = factory(args => this.emit(anonymous as (...args: any[]) => void, ...args), () => this._detachDerived(derivedName));
+        const connections = sources.map((source, index) => this.connect(source as any, (...args: any[]) => operator.next(index, args)));
+        this._derived.set(derivedName, { sources: sourceNames, connections: connections, operator: operator });
+        this.registerOwner(anonymous, derivedName);
+        return anonymous;
+    }
+
+    /**
+     * 派生信号断开上游连接，上游的派生信号因此没有槽时一并断开（见 _deleteSignalData）
+     */
+    private static _detachDerived(signalName: string) {
+        const info = this._derived.get(signalName);
+        if (!info) return;
+        this._derived.delete(signalName);
+        if (info.operator.dispose) {
+            info.operator.dispose();
+        }
+        for (const connection of info.connections) {
+            connection.disconnect();
+        }
+    }
+
     /**
       * 添加槽函数的辅助方法
       * @param signalName 信号名称
@@ -416,7 +1646,7 @@ export class Signal {
       * @param target 槽函数目标对象
       * @param options 连接选项
       */
-    private static addSlot<T extends (...args: any[]) => void>(signalName: string, callback: SlotFunc<T>, target: any, options?: SlotOptions): Connection {
+    private static addSlot<T extends (...args: any[]) => void>(signalName: string, callback: SlotFunc<T>, target: any, options?: SlotOptions, slotFunc?: SlotFunc<T>): Connection {
         // 参数验证
         if (!signalName || typeof signalName !== 'string') {
             throw new Error('Signal name must be a non-empty string');
@@ -426,25 +1656,44 @@ export class Signal {
             throw new Error('Callback must be a function');
         }
 
-        // 获取信号数据
+        // 获取信号数据，通配符模式同时加入模式树
         const signalData = this._getSignalData(signalName);
+        if (isPattern(signalName)) {
+            this._patterns.add(signalName);
+        }
 
         // 增加ID并创建槽函数
         const id = ++_nextId;
         const group = options?.group;
+        // 未显式指定优先级时使用分组的默认优先级
+        let priority = options?.priority;
+        if (priority === undefined || priority === null) {
+            priority = group ? this.getGroupPriority(group) : 0;
+        }
 
         // 添加槽函数
         const slot: SlotInfo<T> = {
             id: id,
+            signalName: signalName,
             callback: callback,
+            slotFunc: slotFunc,
             target: target,
             once: options?.once || false,
-            queued: options?.queued || false,
+            type: connectionTypeOf(options),
+            priority: priority,
             throttle: options?.throttle || undefined,
             debounce: options?.debounce || undefined,
             group: group,
         };
-        signalData.slots.push(slot);
+        // 节流：最长等待等于节流时间的防抖；防抖：默认只在结尾调用
+        if (slot.throttle) {
+            slot.limiter = new RateLimiter(args => this._callLimited(slot, args as Parameters<T>), slot.throttle,
+                options?.leading !== false, options?.trailing !== false, slot.throttle);
+        } else if (slot.debounce) {
+            slot.limiter = new RateLimiter(args => this._callLimited(slot, args as Parameters<T>), slot.debounce,
+                !!options?.leading, options?.trailing !== false, options?.maxWait);
+        }
+        insertByPriority(signalData.slots, slot);
 
         // 如果有分组，添加到分组映射中
         if (group) {
@@ -458,58 +1707,61 @@ export class Signal {
         const disconnect = () => {
             this.disconnectById(signalName, id);
         };
-        return new Connection(id, disconnect);
+        slot.connection = new Connection(id, disconnect, slot.limiter);
+        slot.release = autoDisconnect(target, disconnect);
+        return slot.connection;
+    }
+
+    // 辅助方法：查找已连接的相同槽函数和目标
+    private static _findSlot<T extends (...args: any[]) => void>(signalName: string, slotFunc: SlotFunc<T>, target: any): SlotInfo<T> | undefined {
+        const signalData = this._signals.get(signalName);
+        if (!signalData) return undefined;
+        return signalData.slots.find(slot => slot.slotFunc === slotFunc && slot.target === target);
     }
 
-    // 保持executeSlot方法不变
-    private static executeSlot<T extends (...args: any[]) => void>(slot: SlotInfo<T>, args: Parameters<T>): void {
+    // 执行槽函数，节流/防抖的槽由限流器决定何时真正调用
+    private static executeSlot<T extends (...args: any[]) => void>(slot: SlotInfo<T>, args: Parameters<T>): ReturnType<T> {
+        if (slot.limiter) {
+            return slot.limiter.call(args);
+        }
+        return this._callSlot(slot, args);
+    }
+
+    // 限流器真正调用槽函数，一次性连接此时才断开（发射时断开会取消等待中的调用）
+    private static _callLimited<T extends (...args: any[]) => void>(slot: SlotInfo<T>, args: Parameters<T>): ReturnType<T> {
+        if (slot.once) {
+            this.disconnectById(slot.signalName, slot.id);
+        }
+        return this._callSlot(slot, args);
+    }
+
+    // 调用槽函数并捕获异常，延迟调用时目标可能已经销毁
+    private static _callSlot<T extends (...args: any[]) => void>(slot: SlotInfo<T>, args: Parameters<T>): ReturnType<T> {
+        if (isDestroyedTarget(slot.target)) {
+            return NO_RESULT;
+        }
         try {
-            // 处理节流
-            if (slot.throttle) {
-                const now = Date.now();
-                // 如果距离上次调用的时间小于节流时间，则不执行
-                if (slot.lastCallTime && (now - slot.lastCallTime) < slot.throttle) {
-                    return;
-                }
-                slot.lastCallTime = now;
-            }
-            // 处理防抖
-            if (slot.debounce) {
-                // 清除之前的超时
-                if (slot.timeoutId) {
-                    clearTimeout(slot.timeoutId);
-                }
-                // 设置新的超时
-                slot.timeoutId = window.setTimeout(() => {
-                    if (slot.target) {
-                        slot.callback.apply(slot.target, args);
-                    } else {
-                        slot.callback(...args);
-                    }
-                    // 执行后清理超时ID
-                    slot.timeoutId = undefined;
-                }, slot.debounce);
-                // 不立即执行
-                return;
-            }
-            // 正常执行回调
             if (slot.target) {
-                slot.callback.apply(slot.target, args);
+                return slot.callback.apply(slot.target, args);
             } else {
-                slot.callback(...args);
+                // T 的约束返回 void，实际返回值是连接时签名的 ReturnType<T>
+                return slot.callback(...args) as ReturnType<T>;
             }
         } catch (error) {
-            // 增强错误处理，添加更多上下文信息
-            const signalName = slot['signalName'] || 'unnamed';
-            const targetName = slot.target ? slot.target.constructor.name : 'none';
-            console.error(`Error in slot function for signal "${signalName}" (target: ${targetName}):`, error);
-
-            // 可选：触发全局错误信号以便应用级处理
-            if (typeof window !== 'undefined' && window.dispatchEvent) {
-                window.dispatchEvent(new CustomEvent('signal:error', {
-                    detail: { signalName, error, target: slot.target }
-                }));
+            // 重入错误需要传递到最外层的发射调用
+            if (error instanceof SignalReentrancyError) {
+                throw error;
             }
+            const info: SlotErrorInfo = { signalName: slot.signalName || 'unnamed', slotId: slot.id, target: slot.target, args: args, error: error };
+            // 匹配到 errorOccurred 的通配符槽同样视为 errorOccurred 自身的槽
+            const errorSignalName = this.getName(this.errorOccurred);
+            const notify = slot.signalName !== errorSignalName && this._emissionDepth(errorSignalName) === 0
+                ? (info: SlotErrorInfo) => this.emit(this.errorOccurred, info)
+                : undefined;
+            if (reportSlotError(info, notify, !isEmitting())) {
+                return STOP_EMISSION;
+            }
+            return NO_RESULT;
         }
     }
 
@@ -530,6 +1782,16 @@ export class Signal {
         return signalName;
     }
 
+    /**
+     * 获取一次发射需要投递的信号名列表
+     * 实例信号返回 [实例键, 全局信号名]，字符串信号只返回自身
+     */
+    private static getEmitNames<T extends (...args: any[]) => void>(signal: T | string): string[] {
+        const signalName = this.getName(signal);
+        const globalName = typeof signal === 'function' ? signal['__globalName'] : undefined;
+        return globalName && globalName !== signalName ? [signalName, globalName] : [signalName];
+    }
+
     // 修复hasSlots属性
     static get hasSlots() {
         for (const signalData of this._signals.values()) {
@@ -548,6 +1810,58 @@ export class Signal {
         }
         return count;
     }
+
+    /**
+     * 立即执行队列连接中等待的槽函数，见 EventQueue.process
+     */
+    static processEvents(budget?: number): number {
+        return EventQueue.process(budget);
+    }
+}
+
+/**
+ * 信号阻塞器（类似 QSignalBlocker）
+ * 创建时阻塞信号或发射者实例的所有信号，unblock 时恢复创建前的阻塞状态
+ */
+export class SignalBlocker {
+    private _target: object | string;
+    // 创建前的阻塞方式，未阻塞时为 undefined
+    private _previous: BlockMode | undefined;
+    private _active = true;
+
+    constructor(target: object | string, mode: BlockMode = 'drop') {
+        this._target = target;
+        this._previous = Signal.getBlockMode(target);
+        Signal.blockSignals(target, true, mode);
+    }
+
+    /**
+     * 恢复创建阻塞器之前的阻塞状态和阻塞方式，重复调用无效
+     */
+    unblock() {
+        if (!this._active) return;
+        this._active = false;
+        if (this._previous === undefined) {
+            Signal.blockSignals(this._target, false);
+        } else {
+            Signal.blockSignals(this._target, true, this._previous);
+        }
+    }
+
+    /**
+     * 在阻塞期间执行函数，结束后自动恢复（即使函数抛出异常）
+     * @param target 信号名、信号函数引用或发射者实例
+     * @param fn 要执行的函数
+     * @param mode 阻塞期间的发射处理方式（默认丢弃）
+     */
+    static run<R>(target: object | string, fn: () => R, mode: BlockMode = 'drop'): R {
+        const blocker = new SignalBlocker(target, mode);
+        try {
+            return fn();
+        } finally {
+            blocker.unblock();
+        }
+    }
 }
 
 /**
@@ -555,9 +1869,10 @@ export class Signal {
  * @param signalName 可选的信号名称
  * @param options 信号选项
  */
-export function signal(signalName?: string, options?: { debug?: boolean, group?: string }) {
+export function signal(signalName?: string, options?: { debug?: boolean, group?: string, sticky?: number | boolean }) {
     return function (target: any, prop: string) {
         const signalMap = new WeakMap<any, Record<string, Function>>();
+        Signal.registerMember(target, prop);
 
         Object.defineProperty(target, prop, {
             get: function () {
@@ -567,7 +1882,9 @@ export function signal(signalName?: string, options?: { debug?: boolean, group?:
                 const signalTemp = signalMap.get(this)!;
 
                 if (!signalTemp[prop]) {
-                    const finalName = signalName ? signalName : `${this.constructor.name}.${prop}`;
+                    const globalName = signalName ? signalName : `${this.constructor.name}.${prop}`;
+                    // 每个实例拥有独立的信号键，避免同类实例共享槽列表
+                    const finalName = `${globalName}#${getOwnerId(this)}`;
                     const anonymous = function () {
                         if (options?.debug) {
                             console.log(`Signal ${finalName} called directly (should use Signal.emit instead)`);
@@ -575,6 +1892,8 @@ export function signal(signalName?: string, options?: { debug?: boolean, group?:
                     };
                     // 添加信号名属性
                     anonymous['__signalName'] = finalName;
+                    // 按字符串连接的全局槽同样能收到该实例的发射
+                    anonymous['__globalName'] = globalName;
                     // 添加调试信息和默认分组
                     anonymous['__debugInfo'] = {
                         owner: this,
@@ -582,6 +1901,11 @@ export function signal(signalName?: string, options?: { debug?: boolean, group?:
                         createdAt: new Date().toISOString()
                     };
                     signalTemp[prop] = anonymous;
+                    Signal.registerOwner(this, finalName);
+                    // 粘性信号按实例保存最近的发射
+                    if (options?.sticky) {
+                        Signal.setSticky(anonymous, options.sticky);
+                    }
                 }
                 return signalTemp[prop];
             },
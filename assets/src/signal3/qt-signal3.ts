@@ -1,7 +1,17 @@
+import { autoDisconnect, isDestroyedTarget } from '../signal-lifecycle';
+import { ConnectionType, EventQueue, connectionTypeOf, enterEmit, isEmitting, leaveEmit, postTask, resolveConnectionType } from '../signal-event-queue';
+import { reportSlotError, SlotErrorInfo } from '../signal-errors';
+import { SignalCatalog as Catalog, TypedConnections, typedView } from '../signal-typed';
+
+export { ConnectionType };
+
 // 定义槽函数选项接口
 export interface SlotOptions {
     once?: boolean;      // 自动断开（只调用一次）
-    queued?: boolean;    // 异步调用（类似 Qt::QueuedConnection）
+    queued?: boolean;    // 异步调用（类似 Qt::QueuedConnection），等同于 type: ConnectionType.Queued
+    type?: ConnectionType; // 连接类型（类似 Qt::ConnectionType），指定后忽略 queued（默认 Direct）
+    priority?: number;   // 优先级，数值越大越先执行，相同优先级按连接顺序（默认0）
+    unique?: boolean;    // 唯一连接，相同槽函数和目标已连接时返回已有连接（类似 Qt::UniqueConnection）
 }
 
 export class Connection {
@@ -27,19 +37,58 @@ type SlotFunc<T extends (...args: any[]) => void> = T;
 interface Slot<T extends (...args: any[]) => void> {
     id: number;
     callback: SlotFunc<T>;
+    slotFunc?: SlotFunc<T>; // 未绑定目标的原始槽函数（用于识别重复连接）
+    connection?: Connection;
+    release?: () => void;  // 取消目标销毁监听
     target: any;
     once: boolean;
-    queued: boolean;
+    type: ConnectionType;
+    priority: number;
+}
+
+/**
+ * 信号目录：信号名 -> 槽函数签名，见 signal-typed
+ */
+export type SignalCatalog<M> = Catalog<M>;
+
+/**
+ * 按信号目录约束的字符串信号接口，信号名和参数在编译期检查，未声明的信号名会报错
+ */
+export interface TypedSignals<M extends SignalCatalog<M>> extends TypedConnections<M, Connection, SlotOptions> {
+    emit<K extends keyof M & string>(signal: K, ...args: Parameters<M[K]>): void;
 }
 
 // 槽ID计数器
 let _nextId: number = 1;
 
+/**
+ * 按优先级把槽插入到有序列表中，相同优先级排在已有槽之后
+ */
+function insertByPriority(slots: Slot<any>[], slot: Slot<any>): void {
+    let index = slots.length;
+    while (index > 0 && slots[index - 1].priority < slot.priority) {
+        index--;
+    }
+    slots.splice(index, 0, slot);
+}
+
 export class Signal {
 
     // 使用Map存储每个信号名对应的所有槽函数
     private static _slots = new Map<string, Slot<any>[]>();
 
+    /**
+     * 任一信号的槽函数抛出异常时发射，参数为异常信息
+     * @example
+     * Signal.connect(Signal.errorOccurred, info => reportToServer(info.signalName, info.error));
+     */
+    static errorOccurred(info: SlotErrorInfo): void { }
+
+    /**
+     * 重复连接时输出警告，见 qt-signal 的 Signal.warnDuplicateConnections
+     */
+    static warnDuplicateConnections: boolean = typeof CC_DEV !== 'undefined' && CC_DEV;
+
     /**
      * 触发信号
      * @param signal 信号名或信号函数引用
@@ -58,24 +107,46 @@ export class Signal {
         // 创建一个副本，以避免在触发过程中修改列表
         const slotsSnapshot = [...slots];
 
-        // 依次调用每个槽函数
+        enterEmit();
+        try {
+            this._dispatch(signalName, slotsSnapshot, args);
+        } finally {
+            leaveEmit();
+        }
+    }
+
+    // 依次调用每个槽函数
+    private static _dispatch<T extends (...args: any[]) => void>(signalName: string, slotsSnapshot: Slot<T>[], args: Parameters<T>) {
         for (const slot of slotsSnapshot) {
+            // 目标节点或组件已销毁，自动断开
+            if (isDestroyedTarget(slot.target)) {
+                this.disconnectById(signalName, slot.id);
+                continue;
+            }
             if (slot.once) {
                 // 立即处理一次性槽函数的移除
                 this.disconnectById(signalName, slot.id);
             }
-            if (slot.queued) {
+            const type = resolveConnectionType(slot.type);
+            if (type !== ConnectionType.Direct) {
                 // 异步调用（队列连接）
-                setTimeout(() => {
-                    this.executeSlot(slot, args);
-                }, 0);
-            } else {
-                // 同步调用
-                this.executeSlot(slot, args);
+                postTask(type, () => {
+                    this.executeSlot(signalName, slot, args);
+                });
+            } else if (this.executeSlot(signalName, slot, args)) {
+                // 同步调用，槽函数异常要求停止时不再调用后续槽
+                break;
             }
         }
     }
 
+    /**
+     * 获取按信号目录约束的字符串信号接口，见 signal-typed
+     */
+    static typed<M extends SignalCatalog<M>>(): TypedSignals<M> {
+        return typedView<TypedSignals<M>>(this);
+    }
+
     /**
      * 连接信号和槽函数
      * @param signal 信号名或信号函数引用
@@ -86,14 +157,28 @@ export class Signal {
     static connect<T extends (...args: any[]) => void>(signal: T | string, slotFunc: SlotFunc<T>, target?: any, options?: SlotOptions): Connection {
         // 确定信号名称
         const signalName = this.getName(signal);
+
+        // 检查重复连接
+        const slots = this._slots.get(signalName);
+        const existing = slots && slots.find(slot => slot.slotFunc === slotFunc && slot.target === (target || null));
+        if (existing) {
+            if (options && options.unique) {
+                return existing.connection;
+            }
+            if (this.warnDuplicateConnections) {
+                console.warn(`Duplicate connection to signal "${signalName}", use { unique: true } to avoid calling the slot twice`);
+            }
+        }
+
         // 绑定目标对象到回调函数
         const boundCallback = target ? slotFunc.bind(target) : slotFunc;
         const opts = {
             once: !!(options && options.once),
-            queued: !!(options && options.queued)
+            type: connectionTypeOf(options),
+            priority: (options && options.priority) || 0
         };
         // 使用指定的信号名连接槽函数
-        return this.addSlot(signalName, boundCallback, target || null, opts);
+        return this.addSlot(signalName, boundCallback, target || null, opts, slotFunc);
     }
 
     /**
@@ -112,7 +197,11 @@ export class Signal {
         // 过滤掉匹配的槽函数
         const updatedSlots = slots.filter(slot => {
             // 保留不匹配的槽函数
-            return slot.callback !== slotFunc || (target && slot.target !== target);
+            const keep = slot.callback !== slotFunc || (target && slot.target !== target);
+            if (!keep && slot.release) {
+                slot.release();
+            }
+            return keep;
         });
 
         // 更新信号映射
@@ -128,7 +217,13 @@ export class Signal {
         if (!slots) return;
 
         // 过滤掉匹配的槽函数
-        const updatedSlots = slots.filter(slot => slot.id !== id);
+        const updatedSlots = slots.filter(slot => {
+            if (slot.id !== id) return true;
+            if (slot.release) {
+                slot.release();
+            }
+            return false;
+        });
 
         if (updatedSlots.length > 0) {
             this._slots.set(signalName, updatedSlots);
@@ -174,7 +269,7 @@ export class Signal {
      * @param target 槽函数目标对象
      * @param options 连接选项
      */
-    private static addSlot<T extends (...args: any[]) => void>(signalName: string, callback: SlotFunc<T>, target: any, options?: SlotOptions): Connection {
+    private static addSlot<T extends (...args: any[]) => void>(signalName: string, callback: SlotFunc<T>, target: any, options?: SlotOptions, slotFunc?: SlotFunc<T>): Connection {
         if (!this._slots.has(signalName)) {
             this._slots.set(signalName, []);
         }
@@ -182,20 +277,31 @@ export class Signal {
         const id = ++_nextId;
         // 添加槽函数到信号映射
         const slots = this._slots.get(signalName)!;
-        slots.push({
+        const slot: Slot<T> = {
             id: id,
             callback: callback,
+            slotFunc: slotFunc,
             target: target,
             once: options?.once || false,
-            queued: options?.queued || false
-        });
+            type: connectionTypeOf(options),
+            priority: options?.priority || 0
+        };
+        insertByPriority(slots, slot);
         const disconnect = () => {
             this.disconnect(signalName, callback, target);
         };
-        return new Connection(id, disconnect);
+        slot.connection = new Connection(id, disconnect);
+        slot.release = autoDisconnect(target, () => this.disconnectById(signalName, id));
+        return slot.connection;
     }
 
-    private static executeSlot<T extends (...args: any[]) => void>(slot: Slot<T>, args: Parameters<T>): void {
+    /**
+     * 调用单个槽函数，异常按错误处理方式处理
+     * @returns 是否需要停止本次发射
+     */
+    private static executeSlot<T extends (...args: any[]) => void>(signalName: string, slot: Slot<T>, args: Parameters<T>): boolean {
+        // 队列槽执行时目标可能已经销毁
+        if (isDestroyedTarget(slot.target)) return false;
         try {
             if (slot.target) {
                 slot.callback.apply(slot.target, args);
@@ -203,18 +309,11 @@ export class Signal {
                 slot.callback(...args);
             }
         } catch (error) {
-            // 增强错误处理，添加更多上下文信息
-            const signalName = slot['signalName'] || 'unnamed';
-            const targetName = slot.target ? slot.target.constructor.name : 'none';
-            console.error(`Error in slot function for signal "${signalName}" (target: ${targetName}):`, error);
-
-            // 可选：触发全局错误信号以便应用级处理
-            if (typeof window !== 'undefined' && window.dispatchEvent) {
-                window.dispatchEvent(new CustomEvent('signal:error', {
-                    detail: { signalName, error, target: slot.target }
-                }));
-            }
+            const info: SlotErrorInfo = { signalName: signalName, slotId: slot.id, target: slot.target, args: args, error: error };
+            const notify = signalName !== this.getName(this.errorOccurred) ? (info: SlotErrorInfo) => this.emit(this.errorOccurred, info) : undefined;
+            return reportSlotError(info, notify, !isEmitting());
         }
+        return false;
     }
 
     private static getName<T extends (...args: any[]) => void>(signal: T | string): string {
@@ -236,6 +335,13 @@ export class Signal {
     static get hasSlots() { return this._slots.size > 0; }
 
     static get slotCount() { return this._slots.size; }
+
+    /**
+     * 立即执行队列连接中等待的槽函数，见 EventQueue.process
+     */
+    static processEvents(budget?: number): number {
+        return EventQueue.process(budget);
+    }
 }
 
 /**
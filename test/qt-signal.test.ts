@@ -0,0 +1,249 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { Signal, SignalAggregateError, SignalBlocker, signal, signalMembers } from '../assets/src/qt-signal';
+import { FakeClock, setScheduler } from '../assets/src/signal-scheduler';
+
+class Slider {
+    @signal() valueChanged: Signal<(value: number) => void>;
+    @signal() released: Signal<() => void>;
+}
+
+describe('SignalBlocker', () => {
+    it('解除阻塞时保持单独阻塞的信号', () => {
+        const slider = new Slider();
+        const calls: string[] = [];
+        slider.valueChanged.connect(() => calls.push('valueChanged'));
+        slider.released.connect(() => calls.push('released'));
+        slider.released.blockSignals(true);
+        SignalBlocker.run(slider, () => {
+            slider.valueChanged.emit(1);
+        });
+        slider.valueChanged.emit(2);
+        slider.released.emit();
+        assert.deepStrictEqual(calls, ['valueChanged']);
+        assert.strictEqual(slider.released.signalsBlocked, true);
+    });
+
+    it('嵌套阻塞器恢复外层的阻塞方式', () => {
+        const slider = new Slider();
+        const values: number[] = [];
+        slider.valueChanged.connect(value => values.push(value));
+        const outer = new SignalBlocker(slider.valueChanged, 'queue');
+        SignalBlocker.run(slider.valueChanged, () => slider.valueChanged.emit(1), 'drop');
+        assert.strictEqual(slider.valueChanged.blockMode, 'queue');
+        slider.valueChanged.emit(2);
+        outer.unblock();
+        assert.deepStrictEqual(values, [2]);
+    });
+
+    it('每个实例拥有独立的 @signal 信号', () => {
+        const a = new Slider();
+        const b = new Slider();
+        const values: number[] = [];
+        a.valueChanged.connect(value => values.push(value));
+        b.valueChanged.emit(1);
+        SignalBlocker.run(b, () => a.valueChanged.emit(2));
+        assert.deepStrictEqual(values, [2]);
+    });
+});
+
+class Panel extends Slider {
+    readonly closed = new Signal<() => void>('closed');
+    getterCalls = 0;
+    get summary() {
+        this.getterCalls++;
+        return 'panel';
+    }
+}
+
+describe('signalMembers', () => {
+    it('列出 @signal 声明的信号和信号字段，不调用其他访问器', () => {
+        const panel = new Panel();
+        const members = signalMembers(panel);
+        assert.deepStrictEqual([...members.keys()].sort(), ['closed', 'released', 'valueChanged']);
+        assert.strictEqual(members.get('valueChanged'), panel.valueChanged);
+        assert.strictEqual(panel.getterCalls, 0);
+    });
+
+    it('阻塞对象时包括尚未访问过的 @signal 信号', () => {
+        const panel = new Panel();
+        SignalBlocker.run(panel, () => {
+            assert.strictEqual(panel.released.signalsBlocked, true);
+            assert.strictEqual(panel.closed.signalsBlocked, true);
+        });
+        assert.strictEqual(panel.released.signalsBlocked, false);
+        assert.strictEqual(panel.getterCalls, 0);
+    });
+});
+
+describe('运算符', () => {
+    it('派生信号的最后一个槽断开时断开上游连接', () => {
+        const source = new Signal<(value: number) => void>('source');
+        const doubled = source.map(value => value * 2);
+        const positive = doubled.filter(value => value > 0);
+        const connection = positive.connect(() => { });
+        assert.strictEqual(source.slotCount, 1);
+        connection.disconnect();
+        assert.strictEqual(doubled.slotCount, 0);
+        assert.strictEqual(source.slotCount, 0);
+    });
+
+    it('按槽函数断开时同样断开上游连接', () => {
+        const source = new Signal<(value: number) => void>('source');
+        const skipped = source.skip(1);
+        const slot = () => { };
+        skipped.connect(slot);
+        skipped.disconnect(slot);
+        assert.strictEqual(source.slotCount, 0);
+    });
+});
+
+describe('粘性信号', () => {
+    it('连接时按发射顺序重放最近的发射，一次性连接只重放最近一次', () => {
+        const progress = new Signal<(value: number) => void>('progress', { sticky: 2 });
+        progress.emit(1);
+        progress.emit(2);
+        progress.emit(3);
+        const values: number[] = [];
+        progress.connect(value => values.push(value));
+        progress.connect(value => values.push(value * 10), undefined, { once: true });
+        progress.emit(4);
+        assert.deepStrictEqual(values, [2, 3, 30, 4]);
+    });
+
+    it('replay: false 的连接只收到之后的发射', () => {
+        const userChanged = new Signal<(user: string) => void>('userChanged', { sticky: true });
+        userChanged.emit('alice');
+        const users: string[] = [];
+        userChanged.connect(user => users.push(user), undefined, { replay: false });
+        userChanged.emit('bob');
+        assert.deepStrictEqual(users, ['bob']);
+    });
+
+    it('clearSticky 和 setSticky(0) 清除保存的发射', () => {
+        const userChanged = new Signal<(user: string) => void>('userChanged', { sticky: true });
+        const users: string[] = [];
+        userChanged.emit('alice');
+        userChanged.clearSticky();
+        userChanged.connect(user => users.push(user));
+        userChanged.emit('bob');
+        userChanged.setSticky(0);
+        assert.strictEqual(userChanged.sticky, 0);
+        userChanged.connect(user => users.push(`late ${user}`));
+        assert.deepStrictEqual(users, ['bob']);
+    });
+});
+
+describe('emitAsync', () => {
+    let clock: FakeClock;
+
+    beforeEach(() => {
+        clock = new FakeClock();
+        setScheduler(clock);
+    });
+
+    afterEach(() => {
+        setScheduler();
+    });
+
+    // 经过 ms 毫秒（虚拟时间）后完成的 Promise
+    function delay<V>(ms: number, value: V): Promise<V> {
+        return new Promise(resolve => clock.setTimeout(() => resolve(value), ms));
+    }
+
+    // 等待已完成的 Promise 的回调执行
+    function flush(): Promise<void> {
+        return new Promise(resolve => setImmediate(resolve));
+    }
+
+    it('parallel 同时调用所有槽，按槽的顺序返回结果', async () => {
+        const loaded = new Signal<(name: string) => string | Promise<string>>('loaded');
+        const calls: string[] = [];
+        loaded.connect(name => { calls.push('slow'); return delay(20, `${name} slow`); });
+        loaded.connect(name => { calls.push('fast'); return delay(10, `${name} fast`); });
+        loaded.connect(name => { calls.push('sync'); return `${name} sync`; });
+        const results = loaded.emitAsync('a');
+        assert.deepStrictEqual(calls, ['slow', 'fast', 'sync']);
+        clock.advance(20);
+        assert.deepStrictEqual(await results, ['a slow', 'a fast', 'a sync']);
+    });
+
+    it('sequential 在前一个槽完成后才调用下一个', async () => {
+        const saving = new Signal<() => Promise<void>>('saving');
+        const calls: string[] = [];
+        saving.connect(() => { calls.push('first'); return delay(10, undefined); });
+        saving.connect(() => { calls.push('second'); return delay(10, undefined); });
+        const done = saving.emitAsyncWith({ mode: 'sequential' });
+        assert.deepStrictEqual(calls, ['first']);
+        clock.advance(10);
+        await flush();
+        assert.deepStrictEqual(calls, ['first', 'second']);
+        clock.advance(10);
+        await done;
+    });
+
+    it('race 由第一个成功完成的槽决定结果，全部失败时以聚合错误拒绝', async () => {
+        const lookup = new Signal<() => Promise<string>>('lookup');
+        lookup.connect(() => Promise.reject(new Error('offline')));
+        lookup.connect(() => delay(30, 'cache'));
+        lookup.connect(() => delay(10, 'server'));
+        const results = lookup.emitAsyncWith({ mode: 'race' });
+        clock.advance(30);
+        assert.deepStrictEqual(await results, ['server']);
+
+        const failing = new Signal<() => Promise<string>>('failing');
+        failing.connect(() => Promise.reject(new Error('a')));
+        failing.connect(() => delay(10, undefined).then(() => { throw new Error('b'); }));
+        const rejected = failing.emitAsyncWith({ mode: 'race' });
+        clock.advance(10);
+        await assert.rejects(rejected, (error: SignalAggregateError) => {
+            assert.ok(error instanceof SignalAggregateError);
+            assert.deepStrictEqual(error.errors.map(item => item.error.message), ['a', 'b']);
+            return true;
+        });
+    });
+
+    it('失败的槽不影响其他槽，结束后以列出每个失败的聚合错误拒绝', async () => {
+        const loaded = new Signal<() => Promise<number>>('loaded');
+        const values: number[] = [];
+        const target = {};
+        loaded.connect(() => Promise.reject(new Error('first')), target);
+        loaded.connect(() => delay(10, 1).then(value => { values.push(value); return value; }));
+        loaded.connect(() => { throw new Error('third'); });
+        const results = loaded.emitAsync();
+        clock.advance(10);
+        await assert.rejects(results, (error: SignalAggregateError) => {
+            assert.strictEqual(error.timedOut, false);
+            // 按失败的先后顺序排列
+            assert.deepStrictEqual(error.errors.map(item => item.error.message).sort(), ['first', 'third']);
+            assert.strictEqual(error.errors.find(item => item.error.message === 'first')!.target, target);
+            return true;
+        });
+        assert.deepStrictEqual(values, [1]);
+    });
+
+    it('超时后以 timedOut 的聚合错误拒绝，包含已经失败的槽', async () => {
+        const saving = new Signal<() => Promise<void>>('saving');
+        saving.connect(() => Promise.reject(new Error('disk full')));
+        saving.connect(() => delay(100, undefined));
+        const done = saving.emitAsyncWith({ timeout: 50 });
+        await flush();
+        clock.advance(50);
+        await assert.rejects(done, (error: SignalAggregateError) => {
+            assert.strictEqual(error.timedOut, true);
+            assert.deepStrictEqual(error.errors.map(item => item.error.message), ['disk full']);
+            return true;
+        });
+        clock.advance(50);
+        assert.strictEqual(clock.pendingTimers, 0);
+    });
+
+    it('在超时之前完成时取消超时计时器', async () => {
+        const saving = new Signal<() => Promise<string>>('saving');
+        saving.connect(() => delay(10, 'saved'));
+        const done = saving.emitAsyncWith({ timeout: 50 });
+        clock.advance(10);
+        assert.deepStrictEqual(await done, ['saved']);
+        assert.strictEqual(clock.pendingTimers, 0);
+    });
+});
\ No newline at end of file
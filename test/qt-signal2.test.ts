@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { Signal, SignalBlocker, SignalReentrancyError } from '../assets/src/signal2/qt-signal2';
+import { setSlotErrorMode } from '../assets/src/signal-errors';
+import { FakeClock, setScheduler } from '../assets/src/signal-scheduler';
+
+describe('qt-signal2 节流/防抖', () => {
+    let clock: FakeClock;
+
+    beforeEach(() => {
+        clock = new FakeClock();
+        setScheduler(clock);
+    });
+
+    afterEach(() => {
+        Signal.reset();
+        setScheduler();
+    });
+
+    it('一次性防抖连接在等待结束时调用一次后断开', () => {
+        const calls: number[] = [];
+        Signal.connect('search', (value: number) => calls.push(value), null, { once: true, debounce: 100 });
+        Signal.emit('search', 1);
+        Signal.emit('search', 2);
+        assert.strictEqual(Signal.slotCount, 1);
+        clock.advance(100);
+        assert.deepStrictEqual(calls, [2]);
+        assert.strictEqual(Signal.slotCount, 0);
+        Signal.emit('search', 3);
+        clock.advance(100);
+        assert.deepStrictEqual(calls, [2]);
+    });
+
+    it('一次性节流连接在开始时调用后断开，不再有结尾调用', () => {
+        const calls: number[] = [];
+        Signal.connect('resize', (value: number) => calls.push(value), null, { once: true, throttle: 100 });
+        Signal.emit('resize', 1);
+        assert.strictEqual(Signal.slotCount, 0);
+        Signal.emit('resize', 2);
+        clock.advance(200);
+        assert.deepStrictEqual(calls, [1]);
+        assert.strictEqual(clock.pendingTimers, 0);
+    });
+});
+
+describe('qt-signal2 SignalBlocker', () => {
+    afterEach(() => {
+        Signal.reset();
+    });
+
+    it('嵌套阻塞器恢复外层的阻塞方式', () => {
+        const values: number[] = [];
+        Signal.connect('volume', (value: number) => values.push(value));
+        const outer = new SignalBlocker('volume', 'queue');
+        SignalBlocker.run('volume', () => Signal.emit('volume', 1), 'drop');
+        assert.strictEqual(Signal.getBlockMode('volume'), 'queue');
+        Signal.emit('volume', 2);
+        outer.unblock();
+        assert.deepStrictEqual(values, [2]);
+        assert.strictEqual(Signal.signalsBlocked('volume'), false);
+    });
+});
+
+describe('qt-signal2 通配符连接', () => {
+    afterEach(() => {
+        Signal.reset();
+    });
+
+    it('* 匹配一段，** 匹配任意多段', () => {
+        const calls: string[] = [];
+        Signal.connect('user.*', () => calls.push('user.*'));
+        Signal.connect('user.**', () => calls.push('user.**'));
+        Signal.emit('user.login');
+        Signal.emit('user.profile.updated');
+        Signal.emit('user');
+        assert.deepStrictEqual(calls, ['user.*', 'user.**', 'user.**', 'user.**']);
+    });
+
+    it('onAny 收到信号名，disconnectNamespace 断开命名空间下的连接', () => {
+        const calls: string[] = [];
+        const connection = Signal.onAny((signalName, value) => calls.push(`${signalName}:${value}`));
+        Signal.connect('user.login', () => calls.push('login'));
+        Signal.connect('user.*', () => calls.push('user.*'));
+        Signal.connect('shop.buy', () => calls.push('buy'));
+        Signal.disconnectNamespace('user');
+        Signal.emit('user.login', 1);
+        Signal.emit('shop.buy', 2);
+        connection.disconnect();
+        assert.deepStrictEqual(calls, ['user.login:1', 'shop.buy:2', 'buy']);
+    });
+
+    it('不能发射通配符模式', () => {
+        Signal.connect('user.*', () => { });
+        assert.throws(() => Signal.emit('user.*'), /wildcard/);
+    });
+
+    it('通配符连接和 onAny 重放匹配的粘性信号', () => {
+        Signal.setSticky('user.login', 1);
+        Signal.emit('user.login', 'bob');
+        const values: string[] = [];
+        Signal.connect('user.*', (name: string) => values.push(name));
+        Signal.onAny((signalName, name) => values.push(`${signalName}:${name}`));
+        Signal.connect('shop.*', (name: string) => values.push(`shop ${name}`));
+        assert.deepStrictEqual(values, ['bob', 'user.login:bob']);
+    });
+});
+
+describe('qt-signal2 重入 queue 策略', () => {
+    afterEach(() => {
+        Signal.reset();
+    });
+
+    it('最外层发射结束后按顺序执行排队的重入发射', () => {
+        const values: number[] = [];
+        Signal.setReentrancyPolicy('count', 'queue');
+        Signal.connect('count', (value: number) => {
+            values.push(value);
+            if (value < 3) Signal.emit('count', value + 1);
+            values.push(-value);
+        });
+        Signal.emit('count', 1);
+        assert.deepStrictEqual(values, [1, -1, 2, -2, 3, -3]);
+    });
+
+    it('每次都重入的槽超过最大嵌套层数时抛出异常', () => {
+        let calls = 0;
+        Signal.setReentrancyPolicy('loop', 'queue', 5);
+        const connection = Signal.connect('loop', () => {
+            calls++;
+            Signal.emit('loop');
+        });
+        assert.throws(() => Signal.emit('loop'), SignalReentrancyError);
+        assert.strictEqual(calls, 5);
+        // 排队的发射已丢弃，不影响之后的发射
+        connection.disconnect();
+        Signal.emit('loop');
+        assert.strictEqual(calls, 5);
+    });
+
+    it('最外层发射抛出异常时丢弃排队的重入发射', () => {
+        const values: number[] = [];
+        Signal.setReentrancyPolicy('save', 'queue');
+        Signal.connect('save', (value: number) => {
+            values.push(value);
+            if (value === 1) {
+                Signal.emit('save', 2);
+                throw new Error('abort');
+            }
+        });
+        setSlotErrorMode('rethrow');
+        try {
+            assert.throws(() => Signal.emit('save', 1), /abort/);
+        } finally {
+            setSlotErrorMode('log');
+        }
+        Signal.emit('save', 3);
+        assert.deepStrictEqual(values, [1, 3]);
+    });
+});
+
+describe('qt-signal2 派生信号', () => {
+    afterEach(() => {
+        Signal.reset();
+    });
+
+    it('派生信号的最后一个槽断开后同时断开上游连接', () => {
+        const doubled = Signal.map('score', (value: number) => value * 2);
+        const positive = Signal.filter(doubled, (value: number) => value > 0);
+        const values: number[] = [];
+        const slot = (value: number) => values.push(value);
+        Signal.connect(positive, slot);
+        Signal.emit('score', 1);
+        Signal.disconnect(positive, slot);
+        assert.strictEqual(Signal.slotCount, 0);
+
+        const incremented = Signal.map('score', (value: number) => value + 1);
+        const connection = Signal.connect(incremented, slot);
+        Signal.disconnectById(incremented['__signalName'], connection.id);
+        assert.strictEqual(Signal.slotCount, 0);
+        Signal.emit('score', 2);
+        assert.deepStrictEqual(values, [2]);
+    });
+
+    it('onAny 和 disconnectNamespace 不涉及派生信号', () => {
+        const names: string[] = [];
+        Signal.onAny(signalName => names.push(signalName));
+        const values: number[] = [];
+        Signal.connect(Signal.map('user.level', (level: number) => level * 10), (value: number) => values.push(value));
+        Signal.emit('user.level', 1);
+        Signal.disconnectNamespace('user');
+        assert.deepStrictEqual(names, ['user.level']);
+
+        Signal.emit('user.level', 2);
+        assert.deepStrictEqual(values, [10, 20]);
+    });
+
+    it('上游为通配符模式时派生信号可以连接和发射', () => {
+        const values: string[] = [];
+        const upper = Signal.map('user.*', (name: string) => name.toUpperCase());
+        Signal.connect(upper, (name: string) => values.push(name));
+        Signal.emit('user.login', 'bob');
+        Signal.emit('shop.buy', 'sword');
+        assert.deepStrictEqual(values, ['BOB']);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { afterEach, describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { Signal, signal } from '../assets/src/qt-signal';
+import { Signal as Signal2, signal as signal2 } from '../assets/src/signal2/qt-signal2';
+import { observable } from '../assets/src/decorators';
+import { bind, bindTwoWay, unbind } from '../assets/src/signal-binding';
+
+class PlayerModel {
+    @observable() hp: number = 100;
+    @observable() maxHp: number = 100;
+    @signal2() hpChanged: (hp: number, oldHp: number) => void;
+}
+
+describe('observable', () => {
+    afterEach(() => {
+        Signal2.reset();
+    });
+
+    it('值变化时发射通知信号，相同的值不发射', () => {
+        const model = new PlayerModel();
+        const changes: number[][] = [];
+        Signal2.connect(model.hpChanged, (hp: number, oldHp: number) => changes.push([hp, oldHp]));
+        model.hp = 80;
+        model.hp = 80;
+        model.maxHp = 120;
+        assert.deepStrictEqual(changes, [[80, 100]]);
+    });
+
+    it('没有声明通知信号时自动声明 qt-signal2 的信号', () => {
+        class Counter {
+            @observable() count: number = 0;
+        }
+        const counter = new Counter();
+        const values: number[] = [];
+        Signal2.connect(counter['countChanged'], (count: number) => values.push(count));
+        counter.count = 1;
+        assert.deepStrictEqual(values, [1]);
+    });
+
+    it('通知信号可以是字段初始化的 qt-signal 信号，与装饰器顺序无关', () => {
+        class Enemy {
+            @observable() hp: number = 50;
+            hpChanged = new Signal<(hp: number, oldHp: number) => void>('hpChanged');
+        }
+        class Boss {
+            @signal() hpChanged: Signal<(hp: number, oldHp: number) => void>;
+            @observable() hp: number = 500;
+        }
+        const enemy = new Enemy();
+        const boss = new Boss();
+        const values: number[] = [];
+        enemy.hpChanged.connect(hp => values.push(hp));
+        boss.hpChanged.connect(hp => values.push(hp));
+        enemy.hp = 40;
+        boss.hp = 400;
+        assert.deepStrictEqual(values, [40, 400]);
+    });
+});
+
+describe('bind', () => {
+    it('表达式读取的属性变化时重新计算，解除后保持当前值', () => {
+        const model = new PlayerModel();
+        const label = { string: '' };
+        bind(label, 'string', () => `HP: ${model.hp}/${model.maxHp}`);
+        assert.strictEqual(label.string, 'HP: 100/100');
+        model.hp = 60;
+        model.maxHp = 80;
+        assert.strictEqual(label.string, 'HP: 60/80');
+        unbind(label, 'string');
+        model.hp = 10;
+        assert.strictEqual(label.string, 'HP: 60/80');
+    });
+
+    it('只跟踪最近一次计算读取的属性', () => {
+        const model = new PlayerModel();
+        const view = { text: '' };
+        let computed = 0;
+        bind(view, 'text', () => {
+            computed++;
+            return model.hp > 0 ? `${model.hp}` : `max ${model.maxHp}`;
+        });
+        model.maxHp = 200;
+        assert.strictEqual(computed, 1);
+        model.hp = 0;
+        model.maxHp = 300;
+        assert.strictEqual(view.text, 'max 300');
+        assert.strictEqual(computed, 3);
+    });
+
+    it('双向绑定同步两侧的值，解除任一方向时同时解除另一方向', () => {
+        class Settings {
+            @observable() volume: number = 1;
+        }
+        const settings = new Settings();
+        const view = new Settings();
+        view.volume = 0.2;
+        const binding = bindTwoWay(view, 'volume', settings, 'volume');
+        assert.strictEqual(view.volume, 1);
+        view.volume = 0.5;
+        assert.strictEqual(settings.volume, 0.5);
+        settings.volume = 0.8;
+        assert.strictEqual(view.volume, 0.8);
+        binding.unbind();
+        settings.volume = 0.1;
+        view.volume = 0.3;
+        assert.deepStrictEqual([settings.volume, view.volume], [0.1, 0.3]);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { MessageChannel, MessagePort } from 'node:worker_threads';
+import { Signal } from '../assets/src/signal2/qt-signal2';
+import { SignalBridge, SignalBridgeError } from '../assets/src/signal-bridge';
+import { setSlotErrorMode, takeSlotErrors } from '../assets/src/signal-errors';
+import { FakeClock, setScheduler } from '../assets/src/signal-scheduler';
+
+// 等待对端端口收到指定类型的桥接消息
+function nextMessage(port: MessagePort, type: string): Promise<any> {
+    return new Promise(resolve => {
+        const listener = (message: any) => {
+            if (message && message.type === type) {
+                port.off('message', listener);
+                resolve(message);
+            }
+        };
+        port.on('message', listener);
+    });
+}
+
+// 等待本端发射指定的信号
+function nextEmit(signalName: string): Promise<any[]> {
+    return new Promise(resolve => {
+        Signal.connect(signalName, (...args: any[]) => resolve(args), null, { once: true });
+    });
+}
+
+describe('SignalBridge', () => {
+    let local: MessagePort;
+    let remote: MessagePort;
+
+    beforeEach(() => {
+        const channel = new MessageChannel();
+        local = channel.port1;
+        remote = channel.port2;
+    });
+
+    afterEach(() => {
+        local.close();
+        remote.close();
+        Signal.reset();
+    });
+
+    // 在对端回应握手
+    async function handshake(bridge: SignalBridge) {
+        const hello = await nextMessage(remote, 'hello');
+        remote.postMessage({ __signalBridge: hello.__signalBridge, type: 'ack' });
+        await new Promise<void>(resolve => bridge.connected.connect(() => resolve(), undefined, { once: true }));
+    }
+
+    it('握手完成后按顺序发送之前缓存的信号', async () => {
+        const bridge = new SignalBridge(local, { signals: ['path.found'], handshakeTimeout: 0 });
+        Signal.emit('path.found', [1, 2]);
+        Signal.emit('path.found', [3]);
+        assert.strictEqual(bridge.isConnected, false);
+        const sent: any[] = [];
+        remote.on('message', (message: any) => {
+            if (message.type === 'emit') sent.push(message);
+        });
+        await handshake(bridge);
+        Signal.emit('path.found', [4]);
+        const closed = nextMessage(remote, 'close');
+        bridge.close();
+        await closed;
+        assert.deepStrictEqual(sent.map(message => message.args), [[[1, 2]], [[3]], [[4]]]);
+    });
+
+    it('对端转发的信号在本端发射，未接受的信号报告错误并通知对端', async () => {
+        const bridge = new SignalBridge(local, { accept: ['chat'], handshakeTimeout: 0 });
+        await handshake(bridge);
+        const errors: SignalBridgeError[] = [];
+        bridge.errorOccurred.connect(error => errors.push(error));
+
+        const received = nextEmit('chat');
+        remote.postMessage({ __signalBridge: 1, type: 'emit', signal: 'chat', args: ['hi'] });
+        assert.deepStrictEqual(await received, ['hi']);
+
+        const rejected = nextMessage(remote, 'error');
+        remote.postMessage({ __signalBridge: 1, type: 'emit', signal: 'admin', args: [] });
+        assert.strictEqual((await rejected).signal, 'admin');
+        assert.strictEqual(errors.length, 1);
+        assert.strictEqual(errors[0].signalName, 'admin');
+        bridge.close();
+    });
+
+    it('不把对端转发来的同名信号发回对端', async () => {
+        const bridge = new SignalBridge(local, { signals: ['sync'], handshakeTimeout: 0 });
+        await handshake(bridge);
+        const sent: any[] = [];
+        remote.on('message', (message: any) => sent.push(message.type));
+        const received = nextEmit('sync');
+        remote.postMessage({ __signalBridge: 1, type: 'emit', signal: 'sync', args: [1] });
+        await received;
+        const closed = nextMessage(remote, 'close');
+        bridge.close();
+        await closed;
+        // 消息按顺序到达，关闭消息之前没有回传的 emit
+        assert.deepStrictEqual(sent, ['close']);
+    });
+
+    it('对端关闭时停止转发并发射 disconnected', async () => {
+        const bridge = new SignalBridge(local, { signals: ['tick'], handshakeTimeout: 0 });
+        await handshake(bridge);
+        const disconnected = new Promise<void>(resolve => bridge.disconnected.connect(() => resolve()));
+        remote.postMessage({ __signalBridge: 1, type: 'close' });
+        await disconnected;
+        assert.strictEqual(bridge.isConnected, false);
+        assert.strictEqual(Signal.slotCount, 0);
+    });
+
+    it('握手完成时用设置定时器的调度器取消超时', async () => {
+        const clock = new FakeClock();
+        setScheduler(clock);
+        try {
+            const bridge = new SignalBridge(local, { handshakeTimeout: 1000 });
+            setScheduler();
+            await handshake(bridge);
+            assert.strictEqual(clock.pendingTimers, 0);
+            bridge.close();
+        } finally {
+            setScheduler();
+        }
+    });
+
+    it('没有连接 errorOccurred 时交给槽函数异常处理', async () => {
+        setSlotErrorMode('collect');
+        try {
+            const bridge = new SignalBridge(local, { signals: ['save'], handshakeTimeout: 0 });
+            await handshake(bridge);
+            Signal.emit('save', () => { });
+            const errors = takeSlotErrors();
+            assert.strictEqual(errors.length, 1);
+            assert.ok(errors[0].error instanceof SignalBridgeError);
+            assert.strictEqual(errors[0].signalName, 'save');
+            bridge.close();
+        } finally {
+            setSlotErrorMode('log');
+        }
+    });
+});
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { Signal, ConnectionType, SignalReentrancyError } from '../assets/src/signal2/qt-signal2';
+import { SignalAggregateError } from '../assets/src/qt-signal';
+import { SignalBridgeError } from '../assets/src/signal-bridge';
+import { EventQueue } from '../assets/src/signal-event-queue';
+import { SignalError, setSlotErrorMode } from '../assets/src/signal-errors';
+import { FakeClock, setScheduler } from '../assets/src/signal-scheduler';
+
+describe('rethrow 方式', () => {
+    let clock: FakeClock;
+    let logged: any[];
+    const consoleError = console.error;
+
+    beforeEach(() => {
+        clock = new FakeClock();
+        setScheduler(clock);
+        setSlotErrorMode('rethrow');
+        logged = [];
+        console.error = (...args: any[]) => { logged.push(args); };
+    });
+
+    afterEach(() => {
+        console.error = consoleError;
+        setSlotErrorMode('log');
+        Signal.reset();
+        setScheduler();
+    });
+
+    it('直接连接的异常抛给发射调用方', () => {
+        Signal.connect('save', () => { throw new Error('boom'); });
+        assert.throws(() => Signal.emit('save'), /boom/);
+    });
+
+    it('微任务连接的异常按 log 处理，不产生未处理的 Promise 拒绝', async () => {
+        const rejections: any[] = [];
+        const onRejection = (reason: any) => rejections.push(reason);
+        process.on('unhandledRejection', onRejection);
+        try {
+            Signal.connect('save', () => { throw new Error('boom'); }, null, { type: ConnectionType.Microtask });
+            Signal.emit('save');
+            await new Promise(resolve => setImmediate(resolve));
+            assert.strictEqual(logged.length, 1);
+            assert.strictEqual(rejections.length, 0);
+        } finally {
+            process.off('unhandledRejection', onRejection);
+        }
+    });
+
+    it('防抖连接的结尾调用异常按 log 处理', () => {
+        Signal.connect('search', () => { throw new Error('boom'); }, null, { debounce: 100 });
+        Signal.emit('search');
+        assert.doesNotThrow(() => clock.advance(100));
+        assert.strictEqual(logged.length, 1);
+    });
+
+    it('队列连接的异常按 log 处理', () => {
+        Signal.connect('save', () => { throw new Error('boom'); }, null, { type: ConnectionType.Queued });
+        Signal.emit('save');
+        assert.doesNotThrow(() => clock.runAll());
+        assert.strictEqual(logged.length, 1);
+    });
+
+    it('事件队列中的事件抛出异常时继续执行后续事件', () => {
+        const calls: string[] = [];
+        EventQueue.post(() => { throw new Error('boom'); });
+        EventQueue.post(() => calls.push('next'));
+        assert.strictEqual(EventQueue.process(), 2);
+        assert.deepStrictEqual(calls, ['next']);
+        assert.strictEqual(logged.length, 1);
+        assert.strictEqual(EventQueue.size, 0);
+    });
+});
+
+describe('SignalError', () => {
+    it('各实现的错误都是 SignalError，保留自己的类型和名称', () => {
+        const errors = [
+            new SignalAggregateError('failed', []),
+            new SignalReentrancyError('loop', ['a', 'a']),
+            new SignalBridgeError('closed')
+        ];
+        assert.deepStrictEqual(errors.map(error => error instanceof SignalError && error instanceof Error), [true, true, true]);
+        assert.ok(errors[1] instanceof SignalReentrancyError);
+        assert.deepStrictEqual(errors.map(error => error.name), ['SignalAggregateError', 'SignalReentrancyError', 'SignalBridgeError']);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { afterEach, describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { ConnectionType, Signal } from '../assets/src/signal2/qt-signal2';
+import { EventQueue } from '../assets/src/signal-event-queue';
+import { FakeClock, setScheduler } from '../assets/src/signal-scheduler';
+
+describe('EventQueue', () => {
+    afterEach(() => {
+        EventQueue.clear();
+        Signal.reset();
+        setScheduler();
+    });
+
+    it('替换调度器后在新调度器上安排执行', () => {
+        const oldClock = new FakeClock();
+        const newClock = new FakeClock();
+        setScheduler(oldClock);
+        const values: number[] = [];
+        Signal.connect('loaded', (value: number) => values.push(value), null, { type: ConnectionType.Queued });
+        Signal.emit('loaded', 1);
+        setScheduler(newClock);
+        Signal.emit('loaded', 2);
+        newClock.advance(0);
+        assert.deepStrictEqual(values, [1, 2]);
+
+        // 原调度器的定时器之后执行时不影响新调度器上的安排
+        oldClock.advance(0);
+        Signal.emit('loaded', 3);
+        newClock.advance(0);
+        assert.deepStrictEqual(values, [1, 2, 3]);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { Signal, signal } from '../assets/src/signal2/qt-signal2';
+import { LoopbackServer, RemoteHost, RemoteReplica } from '../assets/src/signal-remote';
+import { setSlotErrorMode, takeSlotErrors } from '../assets/src/signal-errors';
+import { FakeClock, setScheduler } from '../assets/src/signal-scheduler';
+
+class Player {
+    hp = 100;
+    getterCalls = 0;
+    @signal() hpChanged: (hp: number) => void;
+    @signal() callbackRequested: (callback: () => void) => void;
+    @signal() inventoryChanged: (items: Map<string, number>, at: Date) => void;
+    get summary() {
+        this.getterCalls++;
+        return `hp ${this.hp}`;
+    }
+    setHp(hp: number) {
+        this.hp = hp;
+        Signal.emit(this.hpChanged, hp);
+    }
+}
+
+describe('远程对象', () => {
+    let clock: FakeClock;
+    let server: LoopbackServer;
+    let player: Player;
+    let host: RemoteHost;
+    let replica: RemoteReplica;
+    let values: number[];
+
+    function publish(historySize?: number): RemoteHost {
+        const remoteHost = new RemoteHost(historySize);
+        remoteHost.enableRemoting(player, 'player', { snapshot: () => ({ hp: player.hp }) });
+        server.onconnection = socket => remoteHost.addConnection(socket);
+        return remoteHost;
+    }
+
+    function start(historySize?: number) {
+        host = publish(historySize);
+        replica = new RemoteReplica('player', () => server.connect(), { reconnectDelay: 100 });
+        Signal.connect(replica.signal('hpChanged'), (hp: number) => values.push(hp));
+        clock.advance(0);
+    }
+
+    // 模拟断线，副本在 reconnectDelay 之后重连
+    function dropConnection() {
+        server.disconnectAll();
+        clock.advance(0);
+    }
+
+    beforeEach(() => {
+        clock = new FakeClock();
+        setScheduler(clock);
+        server = new LoopbackServer();
+        player = new Player();
+        values = [];
+    });
+
+    afterEach(() => {
+        replica.close();
+        host.close();
+        Signal.reset();
+        setScheduler();
+    });
+
+    it('首次订阅收到快照，之后的发射在副本上按顺序发射', () => {
+        start();
+        assert.deepStrictEqual(replica.state, { hp: 100 });
+        player.setHp(90);
+        player.setHp(80);
+        clock.advance(0);
+        assert.deepStrictEqual(values, [90, 80]);
+        assert.strictEqual(replica.lastSeq, 2);
+        assert.strictEqual(player.getterCalls, 0);
+    });
+
+    it('断线重连后补发缺失的发射', () => {
+        start();
+        const resynced: any[] = [];
+        replica.resynced.connect(state => resynced.push(state));
+        player.setHp(90);
+        clock.advance(0);
+        dropConnection();
+        assert.strictEqual(replica.isConnected, false);
+        player.setHp(80);
+        player.setHp(70);
+        clock.advance(100);
+        assert.strictEqual(replica.isConnected, true);
+        assert.deepStrictEqual(values, [90, 80, 70]);
+        assert.strictEqual(resynced.length, 0);
+    });
+
+    it('缺失的发射超出历史时按快照重新同步', () => {
+        start(2);
+        const resynced: any[] = [];
+        replica.resynced.connect(state => resynced.push(state));
+        player.setHp(90);
+        clock.advance(0);
+        dropConnection();
+        player.setHp(80);
+        player.setHp(70);
+        player.setHp(60);
+        clock.advance(100);
+        assert.deepStrictEqual(values, [90]);
+        assert.deepStrictEqual(resynced, [{ hp: 60 }]);
+        assert.strictEqual(replica.lastSeq, 4);
+        player.setHp(50);
+        clock.advance(0);
+        assert.deepStrictEqual(values, [90, 50]);
+    });
+
+    it('服务端重启后按快照重新同步', () => {
+        start();
+        const resynced: any[] = [];
+        replica.resynced.connect(state => resynced.push(state));
+        player.setHp(90);
+        clock.advance(0);
+        host.close();
+        host = publish();
+        clock.advance(0);
+        player.hp = 40;
+        clock.advance(100);
+        assert.deepStrictEqual(resynced, [{ hp: 40 }]);
+        assert.strictEqual(replica.lastSeq, 0);
+        player.setHp(30);
+        clock.advance(0);
+        assert.deepStrictEqual(values, [90, 30]);
+    });
+
+    it('无法发送的参数只报告错误，不抛给发射方', () => {
+        start();
+        setSlotErrorMode('collect');
+        try {
+            assert.doesNotThrow(() => Signal.emit(player.callbackRequested, () => { }));
+            const errors = takeSlotErrors();
+            assert.strictEqual(errors.length, 1);
+            assert.strictEqual(errors[0].signalName, 'player.callbackRequested');
+        } finally {
+            setSlotErrorMode('log');
+        }
+        player.setHp(90);
+        clock.advance(0);
+        assert.deepStrictEqual(values, [90]);
+        assert.strictEqual(replica.lastSeq, 1);
+    });
+
+    it('JSON 无法还原的参数和快照报告错误，不在副本上变成空对象或字符串', () => {
+        start();
+        const received: any[] = [];
+        Signal.connect(replica.signal('inventoryChanged'), (...args: any[]) => received.push(args));
+        setSlotErrorMode('collect');
+        try {
+            Signal.emit(player.inventoryChanged, new Map([['potion', 3]]), new Date(0));
+            clock.advance(0);
+            const errors = takeSlotErrors();
+            assert.strictEqual(errors.length, 1);
+            assert.strictEqual(errors[0].signalName, 'player.inventoryChanged');
+            assert.match(errors[0].error.message, /Map/);
+
+            const snapshotHost = new RemoteHost();
+            snapshotHost.enableRemoting(player, 'dated', { snapshot: () => ({ savedAt: new Date(0) }) });
+            server.onconnection = socket => snapshotHost.addConnection(socket);
+            const dated = new RemoteReplica('dated', () => server.connect());
+            clock.advance(0);
+            assert.strictEqual(dated.state, undefined);
+            assert.strictEqual(takeSlotErrors()[0].signalName, 'dated.snapshot');
+            dated.close();
+            snapshotHost.close();
+        } finally {
+            setSlotErrorMode('log');
+        }
+        assert.deepStrictEqual(received, []);
+        assert.strictEqual(replica.lastSeq, 0);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,145 @@
+import { afterEach, describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { Signal } from '../assets/src/qt-signal';
+import { Signal as Signal2 } from '../assets/src/signal2/qt-signal2';
+import { FinalState, HistoryState, State, StateMachine } from '../assets/src/signal-state-machine';
+
+// 活动状态名
+function names(machine: StateMachine): string[] {
+    return machine.configuration.map(state => state.name);
+}
+
+describe('StateMachine', () => {
+    afterEach(() => {
+        Signal2.reset();
+    });
+
+    it('信号触发转换，按顺序退出源状态、进入目标状态', () => {
+        const machine = new StateMachine();
+        const menu = new State('menu', machine);
+        const playing = new State('playing', machine);
+        const events: string[] = [];
+        menu.exited.connect(() => events.push('menu.exited'));
+        playing.entered.connect(() => events.push('playing.entered'));
+        const transition = menu.addTransition('game.start', playing);
+        transition.triggered.connect((level: number) => events.push(`triggered ${level}`));
+        machine.start();
+        assert.deepStrictEqual(names(machine), ['menu']);
+        Signal2.emit('game.start', 1);
+        assert.deepStrictEqual(names(machine), ['playing']);
+        assert.deepStrictEqual(events, ['menu.exited', 'triggered 1', 'playing.entered']);
+        machine.stop();
+    });
+
+    it('历史状态恢复父状态上次的子状态', () => {
+        const pause = new Signal<() => void>('pause');
+        const resume = new Signal<() => void>('resume');
+        const next = new Signal<() => void>('next');
+        const machine = new StateMachine();
+        const game = new State('game', machine);
+        const level1 = new State('level1', game);
+        const level2 = new State('level2', game);
+        const history = new HistoryState(game);
+        const paused = new State('paused', machine);
+        level1.addTransition(next, level2);
+        game.addTransition(pause, paused);
+        paused.addTransition(resume, history);
+        machine.start();
+        next.emit();
+        pause.emit();
+        assert.deepStrictEqual(names(machine), ['paused']);
+        resume.emit();
+        assert.deepStrictEqual(names(machine), ['game', 'level2']);
+        machine.stop();
+    });
+
+    it('并行状态的所有区域都进入最终状态后才完成', () => {
+        const loaded = new Signal<() => void>('loaded');
+        const connected = new Signal<() => void>('connected');
+        const machine = new StateMachine();
+        const loading = new State('loading', machine, 'parallel');
+        const assets = new State('assets', loading);
+        new State('assets.pending', assets);
+        const assetsDone = new FinalState('assets.done', assets);
+        const network = new State('network', loading);
+        new State('network.pending', network);
+        const networkDone = new FinalState('network.done', network);
+        const ready = new State('ready', machine);
+        assets.children[0].addTransition(loaded, assetsDone);
+        network.children[0].addTransition(connected, networkDone);
+        loading.addTransition(loading.finished, ready);
+
+        const finished: string[] = [];
+        assets.finished.connect(() => finished.push('assets'));
+        loading.finished.connect(() => finished.push('loading'));
+        machine.finished.connect(() => finished.push('machine'));
+        machine.start();
+        loaded.emit();
+        assert.deepStrictEqual(finished, ['assets']);
+        assert.strictEqual(loading.active, true);
+        connected.emit();
+        assert.deepStrictEqual(finished, ['assets', 'loading']);
+        assert.deepStrictEqual(names(machine), ['ready']);
+        assert.strictEqual(machine.running, true);
+        machine.stop();
+    });
+
+    it('并行状态机的一个区域进入最终状态时不会结束状态机', () => {
+        const uploaded = new Signal<() => void>('uploaded');
+        const saved = new Signal<() => void>('saved');
+        const machine = new StateMachine('sync', 'parallel');
+        const upload = new State('upload', machine);
+        const uploading = new State('uploading', upload);
+        const uploadDone = new FinalState('upload.done', upload);
+        const save = new State('save', machine);
+        const saving = new State('saving', save);
+        const saveDone = new FinalState('save.done', save);
+        uploading.addTransition(uploaded, uploadDone);
+        saving.addTransition(saved, saveDone);
+
+        let finished = 0;
+        machine.finished.connect(() => finished++);
+        machine.start();
+        uploaded.emit();
+        assert.strictEqual(finished, 0);
+        assert.strictEqual(machine.running, true);
+        saved.emit();
+        assert.strictEqual(finished, 1);
+        assert.strictEqual(machine.running, false);
+    });
+
+    it('状态机的最终状态结束状态机', () => {
+        const quit = new Signal<() => void>('quit');
+        const machine = new StateMachine();
+        const menu = new State('menu', machine);
+        const done = new FinalState('done', machine);
+        menu.addTransition(quit, done);
+        const events: string[] = [];
+        machine.finished.connect(() => events.push('finished'));
+        machine.stopped.connect(() => events.push('stopped'));
+        machine.start();
+        quit.emit();
+        assert.deepStrictEqual(events, ['finished', 'stopped']);
+        assert.strictEqual(machine.running, false);
+    });
+
+    it('粘性触发信号不重放，进入源状态之后的发射才触发转换', () => {
+        const go = new Signal<() => void>('go', { sticky: true });
+        Signal2.setSticky('level.loaded', 1);
+        go.emit();
+        Signal2.emit('level.loaded');
+        const machine = new StateMachine();
+        const a = new State('a', machine);
+        const b = new State('b', machine);
+        const c = new State('c', machine);
+        a.addTransition(go, b);
+        b.addTransition('level.loaded', c);
+        machine.start();
+        assert.deepStrictEqual(names(machine), ['a']);
+        go.emit();
+        assert.deepStrictEqual(names(machine), ['b']);
+        Signal2.emit('level.loaded');
+        assert.deepStrictEqual(names(machine), ['c']);
+        machine.stop();
+    });
+});
\ No newline at end of file